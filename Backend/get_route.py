@@ -1,16 +1,18 @@
-import networkx as nx
-import osmnx as ox
+import json
 import math
+import os
+import networkx as nx
 from fastapi import FastAPI, Query
 from fastapi.middleware.cors import CORSMiddleware
 from typing import List, Dict, Any
 
 app = FastAPI()
 
+# Browsers reach the API through the frontend's /api/route proxy, so only
+# the known frontend origins are allowed to call it directly
 app.add_middleware(
     CORSMiddleware,
     allow_origins=[
-        "*",
         "https://campus-map-optimisation.vercel.app",
         "http://localhost:3000",
         "http://127.0.0.1:3000"
@@ -20,6 +22,142 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
+# Walking graph produced by `npm run build:graph` in the frontend
+GRAPH_PATH = os.path.join(
+    os.path.dirname(os.path.abspath(__file__)),
+    "..", "Frontend", "campus_map_optimisation", "public", "data", "campus-graph.json"
+)
+
+def load_campus_graph(path=GRAPH_PATH):
+    with open(path) as f:
+        data = json.load(f)
+
+    G = nx.MultiDiGraph(bounds=data["bounds"])
+    node_tags = data.get("nodeTags", {})
+    for index, (lat, lng) in enumerate(data["nodes"]):
+        G.add_node(index, y=lat, x=lng, tags=node_tags.get(str(index), {}))
+
+    for source, target, length, way in data["edges"]:
+        oneway = data["ways"][way].get("oneway")
+        tags = data["ways"][way]["tags"]
+        if oneway != -1:
+            G.add_edge(source, target, length=length, tags=tags)
+        if oneway != 1:
+            G.add_edge(target, source, length=length, tags=tags)
+
+    return G
+
+def haversine_distance(lat1, lon1, lat2, lon2):
+    lat1, lon1, lat2, lon2 = map(math.radians, [lat1, lon1, lat2, lon2])
+    a = math.sin((lat2 - lat1) / 2) ** 2 + math.cos(lat1) * math.cos(lat2) * math.sin((lon2 - lon1) / 2) ** 2
+    return 6371e3 * 2 * math.atan2(math.sqrt(a), math.sqrt(1 - a))
+
+def nearest_node(G, lat, lng):
+    return min(G.nodes, key=lambda node: haversine_distance(lat, lng, G.nodes[node]['y'], G.nodes[node]['x']))
+
+G = load_campus_graph()
+
+# Furthest a start or end point may be from the walking graph, as in app/lib/routing/router.ts
+MAX_SNAP_DISTANCE = 300
+
+class RouteError(Exception):
+    # Error codes shared with the frontend's routeErrors.ts
+    def __init__(self, code, message, details=None):
+        super().__init__(message)
+        self.code = code
+        self.details = details or {}
+
+def is_within_bounds(G, lat, lng):
+    bounds = G.graph["bounds"]
+    return bounds["minLat"] <= lat <= bounds["maxLat"] and bounds["minLng"] <= lng <= bounds["maxLng"]
+
+def snap_to_graph(G, lat, lng, role):
+    details = {"point": {"lat": lat, "lng": lng}, "role": role}
+    if not is_within_bounds(G, lat, lng):
+        raise RouteError("OUT_OF_BOUNDS", f"The {role} point is outside the campus map", details)
+
+    node = nearest_node(G, lat, lng)
+    if haversine_distance(lat, lng, G.nodes[node]['y'], G.nodes[node]['x']) > MAX_SNAP_DISTANCE:
+        raise RouteError("OUT_OF_BOUNDS", f"The {role} point is too far from any walkable path", details)
+    return node
+
+# Routing profiles, mirroring app/lib/routing/profiles.ts in the frontend
+ROUTING_PROFILES = ("standard", "step_free", "avoid_unpaved")
+UNPAVED_SURFACES = {
+    "unpaved", "gravel", "fine_gravel", "pebblestone", "compacted", "dirt",
+    "earth", "ground", "grass", "mud", "sand", "woodchips",
+}
+ROUGH_SMOOTHNESS = {"bad", "very_bad", "horrible", "very_horrible", "impassable"}
+STEP_FREE_KERBS = {"lowered", "flush", "no"}
+STEP_BARRIERS = {"stile", "kissing_gate", "turnstile", "full-height_turnstile", "step"}
+VIOLATION_PENALTY = 10
+
+def is_unpaved(tags):
+    if "surface" in tags:
+        return tags["surface"] in UNPAVED_SURFACES
+    if tags.get("smoothness") in ROUGH_SMOOTHNESS:
+        return True
+    return tags.get("highway") == "track" and tags.get("tracktype") != "grade1"
+
+def get_edge_violation(G, profile, target, edge):
+    """Why traversing an edge breaks the profile, or None when it complies"""
+    tags = edge["tags"]
+    if profile == "step_free":
+        if tags.get("highway") == "steps":
+            return "Steps"
+        if tags.get("wheelchair") == "no":
+            return "Not wheelchair accessible"
+        node_tags = G.nodes[target]["tags"]
+        if node_tags.get("wheelchair") == "no":
+            return "Not wheelchair accessible"
+        if "kerb" in node_tags and node_tags["kerb"] not in STEP_FREE_KERBS:
+            return "Raised kerb"
+        if node_tags.get("barrier") in STEP_BARRIERS:
+            return "Barrier"
+    elif profile == "avoid_unpaved" and is_unpaved(tags):
+        return "Unpaved surface"
+    return None
+
+def get_edge_penalty(G, profile, target):
+    node_tags = G.nodes[target]["tags"]
+    if profile == "step_free" and node_tags.get("highway") == "crossing" and "kerb" not in node_tags:
+        return 1.2
+    return 1
+
+def profile_weight(profile, strict):
+    """networkx weight function; strict returns None to hide non-compliant edges"""
+    def weight(u, v, data):
+        costs = []
+        for edge in data.values():
+            cost = edge["length"] * get_edge_penalty(G, profile, v)
+            if get_edge_violation(G, profile, v, edge):
+                if strict:
+                    continue
+                cost *= VIOLATION_PENALTY
+            costs.append(cost)
+        return min(costs) if costs else None
+    return weight
+
+def find_profile_violations(G, profile, path):
+    violations = []
+    previous = None
+    for i, (u, v) in enumerate(zip(path, path[1:])):
+        edge = min(G.get_edge_data(u, v).values(), key=lambda e: e["length"])
+        reason = get_edge_violation(G, profile, v, edge)
+        if not reason:
+            previous = None
+        elif previous and previous["reason"] == reason:
+            previous["distance"] += round(edge["length"])
+        else:
+            previous = {
+                "reason": reason,
+                "location": {"lat": G.nodes[u]["y"], "lng": G.nodes[u]["x"]},
+                "path_index": i,
+                "distance": round(edge["length"]),
+            }
+            violations.append(previous)
+    return violations
+
 def calculate_bearing(lat1, lon1, lat2, lon2):
     lat1, lon1, lat2, lon2 = map(math.radians, [lat1, lon1, lat2, lon2])
     dlon = lon2 - lon1
@@ -28,24 +166,56 @@ def calculate_bearing(lat1, lon1, lat2, lon2):
     bearing = math.atan2(y, x)
     return math.degrees(bearing)
 
-def get_turn_direction(bearing1, bearing2):
-    angle = (bearing2 - bearing1 + 180) % 360 - 180
+# Instruction text per maneuver type, mirroring app/lib/routing/instructions.ts
+MANEUVER_INSTRUCTIONS = {
+    "depart": "Start your journey",
+    "straight": "Continue straight",
+    "slight_right": "Turn slight right",
+    "right": "Turn right",
+    "sharp_right": "Turn sharp right",
+    "uturn": "Make a U-turn",
+    "sharp_left": "Turn sharp left",
+    "left": "Turn left",
+    "slight_left": "Turn slight left",
+    "arrive": "You have arrived at your destination",
+}
+
+def turn_angle(bearing1, bearing2):
+    return (bearing2 - bearing1 + 180) % 360 - 180
+
+def get_maneuver_type(angle):
     if -15 <= angle <= 15:
-        return "Continue straight"
+        return "straight"
     elif 15 < angle <= 75:
-        return "Turn slight right"
+        return "slight_right"
     elif 75 < angle <= 105:
-        return "Turn right"
+        return "right"
     elif 105 < angle <= 165:
-        return "Turn sharp right"
+        return "sharp_right"
     elif angle > 165 or angle < -165:
-        return "Make a U-turn"
+        return "uturn"
     elif -165 <= angle < -105:
-        return "Turn sharp left"
+        return "sharp_left"
     elif -105 <= angle < -75:
-        return "Turn left"
-    elif -75 <= angle < -15:
-        return "Turn slight left"
+        return "left"
+    else:
+        return "slight_left"
+
+def get_turn_direction(bearing1, bearing2):
+    return MANEUVER_INSTRUCTIONS[get_maneuver_type(turn_angle(bearing1, bearing2))]
+
+def make_instruction(coords, maneuver, distance):
+    maneuver_type, path_index, angle = maneuver
+    lat, lng = coords[path_index]
+    return {
+        "instruction": MANEUVER_INSTRUCTIONS[maneuver_type],
+        "distance": round(distance),
+        "distance_text": f"{round(distance)} meters" if distance > 0 else "",
+        "path_index": path_index,
+        "location": {"lat": lat, "lng": lng},
+        "turn_angle": round(angle),
+        "maneuver_type": maneuver_type,
+    }
 
 def generate_navigation_instructions(G, path):
     instructions = []
@@ -63,10 +233,12 @@ def generate_navigation_instructions(G, path):
     
     previous_bearing = None
     segment_distance = 0
-    current_instruction = "Start your journey"
+    # (maneuver type, path index, turn angle) of the instruction being built
+    current_maneuver = ("depart", 0, 0)
     
     for i in range(len(path) - 1):
         # Calculate distance for this segment
+        distance = 0
         edge_data = G.get_edge_data(path[i], path[i + 1])
         if edge_data:
             edge_info = list(edge_data.values())[0]
@@ -75,84 +247,171 @@ def generate_navigation_instructions(G, path):
             total_distance += distance
         
         # Calculate bearing for this segment
-        if i < len(coords) - 1:
-            bearing = calculate_bearing(coords[i][0], coords[i][1], 
-                                     coords[i + 1][0], coords[i + 1][1])
+        bearing = calculate_bearing(coords[i][0], coords[i][1], 
+                                    coords[i + 1][0], coords[i + 1][1])
+        
+        if previous_bearing is not None:
+            angle = turn_angle(previous_bearing, bearing)
+            maneuver_type = get_maneuver_type(angle)
             
-            if previous_bearing is not None:
-                turn_direction = get_turn_direction(previous_bearing, bearing)
+            if maneuver_type != "straight":
+                if segment_distance - distance > 0:
+                    instructions.append(make_instruction(coords, current_maneuver, segment_distance - distance))
+                current_maneuver = (maneuver_type, i, angle)
+                segment_distance = distance
                 
-                if "Continue straight" not in turn_direction:
-                    if segment_distance > 0:
-                        instructions.append({
-                            "instruction": current_instruction,
-                            "distance": round(segment_distance),
-                            "distance_text": f"{round(segment_distance)} meters"
-                        })
-                    current_instruction = turn_direction
-                    segment_distance = distance
-                    
-            previous_bearing = bearing
+        previous_bearing = bearing
     
     # Add the final instruction
     if segment_distance > 0:
-        instructions.append({
-            "instruction": current_instruction,
-            "distance": round(segment_distance),
-            "distance_text": f"{round(segment_distance)} meters"
-        })
+        instructions.append(make_instruction(coords, current_maneuver, segment_distance))
     
-    instructions.append({
-        "instruction": "You have arrived at your destination",
-        "distance": 0,
-        "distance_text": ""
-    })
+    instructions.append(make_instruction(coords, ("arrive", len(path) - 1, 0), 0))
     
     return instructions, total_distance
 
+# Alternatives sharing more than this fraction of their length with another
+# route, or longer than MAX_ALTERNATIVE_STRETCH x the shortest, are dropped
+MAX_ROUTE_OPTIONS = 3
+MAX_ALTERNATIVE_OVERLAP = 0.7
+MAX_ALTERNATIVE_STRETCH = 1.5
+OVERLAP_PENALTY = 1.5
+
+def edge_key(a, b):
+    return (a, b) if a < b else (b, a)
+
+def path_length(G, path):
+    return sum(G.get_edge_data(a, b)[0]['length'] for a, b in zip(path, path[1:]))
+
+def path_overlap(G, candidate, other_edges):
+    shared = sum(
+        G.get_edge_data(a, b)[0]['length']
+        for a, b in zip(candidate, candidate[1:])
+        if edge_key(a, b) in other_edges
+    )
+    total = path_length(G, candidate)
+    return shared / total if total > 0 else 1
+
+def find_alternative_paths(G, source, target, count=MAX_ROUTE_OPTIONS, weight="length"):
+    """Shortest path plus alternatives found by penalising already used edges"""
+    base_weight = weight if callable(weight) else lambda u, v, data: min(d[weight] for d in data.values())
+    shortest = nx.shortest_path(G, source=source, target=target, weight=base_weight)
+    paths = [shortest]
+    path_edges = [{edge_key(a, b) for a, b in zip(shortest, shortest[1:])}]
+    penalties = {}
+    max_length = path_length(G, shortest) * MAX_ALTERNATIVE_STRETCH
+
+    def penalise(edges):
+        for key in edges:
+            penalties[key] = penalties.get(key, 1) * OVERLAP_PENALTY
+
+    def penalised_weight(u, v, data):
+        cost = base_weight(u, v, data)
+        return None if cost is None else cost * penalties.get(edge_key(u, v), 1)
+
+    penalise(path_edges[0])
+
+    for _ in range(count * 3):
+        if len(paths) >= count:
+            break
+
+        candidate = nx.shortest_path(G, source=source, target=target, weight=penalised_weight)
+        if path_length(G, candidate) > max_length:
+            break
+
+        candidate_edges = {edge_key(a, b) for a, b in zip(candidate, candidate[1:])}
+        penalise(candidate_edges)
+
+        if all(path_overlap(G, candidate, edges) <= MAX_ALTERNATIVE_OVERLAP for edges in path_edges):
+            paths.append(candidate)
+            path_edges.append(candidate_edges)
+
+    return paths
+
+def build_route(G, path, start_lat, start_lng, end_lat, end_lng, profile="standard", compliant=True):
+    # Generate navigation instructions
+    instructions, total_distance = generate_navigation_instructions(G, path)
+
+    # Get path coordinates for frontend mapping
+    path_coordinates = []
+    for node in path:
+        lat = G.nodes[node]['y']
+        lng = G.nodes[node]['x']
+        path_coordinates.append({"lat": lat, "lng": lng})
+
+    route = {
+        "start": {"lat": start_lat, "lng": start_lng},
+        "end": {"lat": end_lat, "lng": end_lng},
+        "total_distance": round(total_distance),
+        "estimated_time_minutes": round(total_distance / 80, 1),
+        "instructions": instructions,
+        "path_coordinates": path_coordinates,
+        "profile": profile
+    }
+
+    if not compliant:
+        route["profile_violations"] = find_profile_violations(G, profile, path)
+
+    return route
+
 @app.get("/route")
 async def get_route(
     start_lat: float = Query(..., description="Starting latitude"),
     start_lng: float = Query(..., description="Starting longitude"), 
     end_lat: float = Query(..., description="Ending latitude"),
-    end_lng: float = Query(..., description="Ending longitude")
+    end_lng: float = Query(..., description="Ending longitude"),
+    profile: str = Query("standard", description="Routing profile: standard, step_free or avoid_unpaved")
 ):
     try:
-        G = ox.graph_from_xml("map.osm")
+        if profile not in ROUTING_PROFILES:
+            raise RouteError("INVALID_REQUEST", f"Unknown routing profile: {profile}")
 
         # Convert coords to nearest graph nodes
-        start_node = ox.nearest_nodes(G, X=start_lng, Y=start_lat)
-        end_node = ox.nearest_nodes(G, X=end_lng, Y=end_lat)
+        start_node = snap_to_graph(G, start_lat, start_lng, "start")
+        end_node = snap_to_graph(G, end_lat, end_lng, "end")
+
+        # Compute shortest path and alternatives, relaxing the profile if no compliant path exists
+        compliant = True
+        try:
+            paths = find_alternative_paths(G, start_node, end_node, weight=profile_weight(profile, strict=True))
+        except nx.NetworkXNoPath:
+            if profile == "standard":
+                raise RouteError("NO_PATH", "No walking path connects these locations")
+            compliant = False
+            paths = find_alternative_paths(G, start_node, end_node, weight=profile_weight(profile, strict=False))
+
+        path, *alternatives = paths
+        route = build_route(G, path, start_lat, start_lng, end_lat, end_lng, profile, compliant)
+
+        if alternatives:
+            route["alternatives"] = sorted(
+                (build_route(G, p, start_lat, start_lng, end_lat, end_lng, profile, compliant) for p in alternatives),
+                key=lambda r: r["total_distance"]
+            )
 
-        # Compute shortest path
-        path = nx.shortest_path(G, source=start_node, target=end_node, weight="length")
-        
-        # Generate navigation instructions
-        instructions, total_distance = generate_navigation_instructions(G, path)
-        
-        # Get path coordinates for frontend mapping
-        path_coordinates = []
-        for node in path:
-            lat = G.nodes[node]['y']
-            lng = G.nodes[node]['x']
-            path_coordinates.append({"lat": lat, "lng": lng})
-        
         return {
             "success": True,
-            "route": {
-                "start": {"lat": start_lat, "lng": start_lng},
-                "end": {"lat": end_lat, "lng": end_lng},
-                "total_distance": round(total_distance),
-                "estimated_time_minutes": round(total_distance / 80, 1),
-                "instructions": instructions,
-                "path_coordinates": path_coordinates
-            }
+            "route": route
         }
         
+    except RouteError as e:
+        return {
+            "success": False,
+            "error": str(e),
+            "code": e.code,
+            "details": e.details
+        }
+    except nx.NetworkXNoPath as e:
+        return {
+            "success": False,
+            "error": str(e),
+            "code": "NO_PATH"
+        }
     except Exception as e:
         return {
             "success": False,
-            "error": str(e)
+            "error": str(e),
+            "code": "INTERNAL_ERROR"
         }
 
 @app.get("/")
@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RouteData } from '../../types/route';
+import { fetchBackendRoute } from '../../lib/routeClient';
+import { RouteError } from '../../lib/routeErrors';
+import { GET } from './route';
+
+vi.mock('../../lib/routeClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../lib/routeClient')>()),
+  fetchBackendRoute: vi.fn(),
+}));
+
+const fetchRoute = vi.mocked(fetchBackendRoute);
+
+const ROUTE: RouteData = {
+  start: { lat: 28.52501, lng: 77.574915 },
+  end: { lat: 28.5237344, lng: 77.5742457 },
+  total_distance: 156,
+  estimated_time_minutes: 2,
+  instructions: [],
+  path_coordinates: [{ lat: 28.52501, lng: 77.574915 }, { lat: 28.5237344, lng: 77.5742457 }],
+};
+
+// The handler's cache outlives each test, so every test asks for its own endpoints
+let nextLat = 28.5;
+const freshEnds = () => {
+  nextLat += 0.001;
+  return { start_lat: nextLat.toFixed(5), start_lng: '77.57', end_lat: '28.52', end_lng: '77.57' };
+};
+
+const request = (params: Record<string, string>) =>
+  GET(new NextRequest(`http://localhost/api/route?${new URLSearchParams(params)}`));
+
+describe('GET /api/route', () => {
+  beforeEach(() => {
+    fetchRoute.mockReset();
+    fetchRoute.mockResolvedValue(ROUTE);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('rejects invalid coordinates with INVALID_REQUEST', async () => {
+    const response = await request({ ...freshEnds(), start_lat: '91' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, code: 'INVALID_REQUEST' });
+    expect(fetchRoute).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing coordinate', async () => {
+    const { start_lat, start_lng, end_lat } = freshEnds();
+    const response = await request({ start_lat, start_lng, end_lat });
+    expect(response.status).toBe(400);
+  });
+
+  it('returns the backend route and caches it by endpoints rounded to about a metre', async () => {
+    const ends = freshEnds();
+    const first = await request(ends);
+    expect(first.headers.get('X-Route-Cache')).toBe('MISS');
+    expect(await first.json()).toEqual({ success: true, route: ROUTE });
+    expect(fetchRoute.mock.calls[0][0]).toEqual({ lat: Number(ends.start_lat), lng: 77.57 });
+
+    const nearby = await request({ ...ends, start_lat: `${ends.start_lat}0004` });
+    expect(nearby.headers.get('X-Route-Cache')).toBe('HIT');
+    expect(fetchRoute).toHaveBeenCalledTimes(1);
+
+    const otherProfile = await request({ ...ends, profile: 'step_free' });
+    expect(otherProfile.headers.get('X-Route-Cache')).toBe('MISS');
+  });
+
+  it('fetches again once a cached route has expired', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const ends = freshEnds();
+    await request(ends);
+    vi.setSystemTime(5 * 60 * 1000);
+    expect((await request(ends)).headers.get('X-Route-Cache')).toBe('MISS');
+    expect(fetchRoute).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently fetched route beyond the size limit', async () => {
+    const oldest = freshEnds();
+    await request(oldest);
+    for (let i = 0; i < 500; i++) {
+      await request(freshEnds());
+    }
+    fetchRoute.mockClear();
+    expect((await request(oldest)).headers.get('X-Route-Cache')).toBe('MISS');
+    expect(fetchRoute).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps backend errors to their status and does not cache them', async () => {
+    fetchRoute.mockRejectedValueOnce(new RouteError('OUT_OF_BOUNDS', 'Outside campus', { role: 'start' }));
+    const ends = freshEnds();
+    const failed = await request(ends);
+    expect(failed.status).toBe(422);
+    expect(await failed.json()).toMatchObject({ code: 'OUT_OF_BOUNDS', details: { role: 'start' } });
+
+    expect((await request(ends)).status).toBe(200);
+    expect(fetchRoute).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a newer cached route when an older request for the same ends fails', async () => {
+    vi.useFakeTimers({ now: 0 });
+    let fail!: (error: unknown) => void;
+    fetchRoute.mockReturnValueOnce(new Promise((_, reject) => { fail = reject; }));
+    const ends = freshEnds();
+    const stale = request(ends);
+
+    // Expired, so this request replaces the pending one in the cache
+    vi.setSystemTime(5 * 60 * 1000);
+    await request(ends);
+    fail(new RouteError('TIMEOUT', 'Slow'));
+    expect((await stale).status).toBe(504);
+
+    expect((await request(ends)).headers.get('X-Route-Cache')).toBe('HIT');
+    expect(fetchRoute).toHaveBeenCalledTimes(2);
+  });
+});
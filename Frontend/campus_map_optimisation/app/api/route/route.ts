@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Coordinate, RouteData, RoutingProfile } from '../../types/route';
+import { fetchBackendRoute, routingProfileSchema } from '../../lib/routeClient';
+import { RouteErrorCode, toRouteError } from '../../lib/routeErrors';
+
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const MAX_CACHE_ENTRIES = 500;
+const CACHE_PRECISION = 5; // decimal places, roughly 1 m
+
+// Shorter than the browser's timeout so the client sees TIMEOUT rather than aborting itself
+const BACKEND_TIMEOUT = 12000; // milliseconds
+
+const coordinateParam = (min: number, max: number) =>
+  z.string().trim().min(1).transform(Number).pipe(z.number().min(min).max(max));
+
+const routeQuerySchema = z.object({
+  start_lat: coordinateParam(-90, 90),
+  start_lng: coordinateParam(-180, 180),
+  end_lat: coordinateParam(-90, 90),
+  end_lng: coordinateParam(-180, 180),
+  profile: routingProfileSchema.default('standard'),
+});
+
+const ERROR_STATUS: Partial<Record<RouteErrorCode, number>> = {
+  INVALID_REQUEST: 400,
+  NO_PATH: 422,
+  OUT_OF_BOUNDS: 422,
+  TIMEOUT: 504,
+};
+
+// Routes keyed by rounded endpoints; in-flight requests are shared too
+const routeCache = new Map<string, { route: Promise<RouteData>; timestamp: number }>();
+
+const roundCoordinate = ({ lat, lng }: Coordinate): Coordinate => ({
+  lat: Number(lat.toFixed(CACHE_PRECISION)),
+  lng: Number(lng.toFixed(CACHE_PRECISION)),
+});
+
+function getCachedRoute(start: Coordinate, end: Coordinate, profile: RoutingProfile) {
+  const key = `${start.lat},${start.lng}-${end.lat},${end.lng}-${profile}`;
+  const cached = routeCache.get(key);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return { route: cached.route, hit: true };
+  }
+
+  const route = fetchBackendRoute(start, end, { profile, timeoutMs: BACKEND_TIMEOUT });
+  // A newer request may already have replaced this one
+  route.catch(() => {
+    if (routeCache.get(key)?.route === route) routeCache.delete(key);
+  });
+
+  routeCache.delete(key);
+  routeCache.set(key, { route, timestamp: Date.now() });
+
+  // Map iteration follows insertion order, so the first key is the oldest
+  if (routeCache.size > MAX_CACHE_ENTRIES) {
+    routeCache.delete(routeCache.keys().next().value!);
+  }
+
+  return { route, hit: false };
+}
+
+export async function GET(request: NextRequest) {
+  const query = routeQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!query.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid route request: start_lat, start_lng, end_lat and end_lng must be valid coordinates',
+        code: 'INVALID_REQUEST',
+      },
+      { status: 400 }
+    );
+  }
+
+  const { start_lat, start_lng, end_lat, end_lng, profile } = query.data;
+  const start = roundCoordinate({ lat: start_lat, lng: start_lng });
+  const end = roundCoordinate({ lat: end_lat, lng: end_lng });
+  const { route, hit } = getCachedRoute(start, end, profile);
+
+  try {
+    return NextResponse.json(
+      { success: true, route: await route },
+      { headers: { 'X-Route-Cache': hit ? 'HIT' : 'MISS' } }
+    );
+  } catch (err) {
+    const error = toRouteError(err);
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code, details: error.details },
+      { status: ERROR_STATUS[error.code] ?? 502 }
+    );
+  }
+}
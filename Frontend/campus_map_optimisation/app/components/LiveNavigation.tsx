@@ -1,36 +1,97 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Navigation, MapPin, RotateCcw, PlayCircle, StopCircle, AlertTriangle } from 'lucide-react';
+import {
+  Navigation,
+  MapPin,
+  RotateCcw,
+  PlayCircle,
+  StopCircle,
+  AlertTriangle,
+  Flag,
+  Volume2,
+  VolumeX,
+  Vibrate,
+  VibrateOff,
+} from 'lucide-react';
 import { useNavigation } from '../hooks/useNavigation';
+import { useGuidance } from '../hooks/useGuidance';
 import { useLocation } from '../contexts/LocationContext';
+import { PaceProfile, RouteData, RoutingProfile } from '../types/route';
+import { RouteRecoveryAction } from '../lib/routeErrors';
+import { getManeuverSymbol } from '../lib/routeDisplay';
+import RouteErrorNotice from './RouteErrorNotice';
 
 interface LiveNavigationProps {
   destination: { lat: number; lng: number; name?: string } | null;
+  // The route picked before starting; navigation follows it until the user leaves it
+  plannedRoute?: RouteData | null;
   onNavigationEnd?: () => void;
+  // Called with the route being followed, which changes on every reroute
+  onRouteChange?: (route: RouteData | null) => void;
+  // Called with the index of the instruction being walked, or null when not navigating
+  onStepChange?: (index: number | null) => void;
+  profile?: RoutingProfile;
+  pace?: PaceProfile;
+  useShuttle?: boolean;
 }
 
-export default function LiveNavigation({ destination, onNavigationEnd }: LiveNavigationProps) {
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)}km` : `${Math.round(meters)}m`;
+
+const formatClockTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (milliseconds: number) => {
+  const minutes = Math.max(1, Math.round(milliseconds / 60000));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}min` : `${minutes} min`;
+};
+
+export default function LiveNavigation({
+  destination,
+  plannedRoute,
+  onNavigationEnd,
+  onRouteChange,
+  onStepChange,
+  profile,
+  pace,
+  useShuttle,
+}: LiveNavigationProps) {
   const { startTracking, stopTracking, isTracking, hasLocationPermission, error: locationError, requestLocationPermission } = useLocation();
   const {
+    phase,
+    tripSummary,
     currentRoute,
     isNavigating,
     nextInstruction,
     routeProgress,
     distanceToNextInstruction,
+    remainingDistance,
+    remainingTimeMinutes,
+    estimatedArrival,
     distanceToRoute,
     shouldRecalculate,
     isRecalculating,
     startNavigation,
     stopNavigation,
     recalculateRoute,
-  } = useNavigation({ destination });
+    routeError,
+  } = useNavigation({ destination, plannedRoute, profile, pace, useShuttle });
+
+  const { isMuted, toggleMute, hapticsEnabled, toggleHaptics, unlockAudio } = useGuidance({
+    phase,
+    route: currentRoute,
+    nextInstruction,
+    distanceToNextInstruction,
+    destinationName: destination?.name,
+  });
 
-  const [hasStartedNavigation, setHasStartedNavigation] = useState(false);
   const [isRequestingPermission, setIsRequestingPermission] = useState(false);
 
   const handleStartNavigation = async () => {
     setIsRequestingPermission(true);
+    // Chimes need an audio context created during a user gesture
+    unlockAudio();
     
     try {
       // First, explicitly request location permission
@@ -42,9 +103,8 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
           startTracking();
         }
         
-        // Start navigation
-        await startNavigation();
-        setHasStartedNavigation(true);
+        // Start navigation; the route is requested once a fix arrives
+        startNavigation();
       } else {
         // Permission denied, show error message
         console.log('Location permission denied');
@@ -58,10 +118,31 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
 
   const handleStopNavigation = () => {
     stopNavigation();
-    setHasStartedNavigation(false);
     onNavigationEnd?.();
   };
 
+  const handleRouteErrorAction = (action: RouteRecoveryAction) => {
+    if (action === 'pick_location') {
+      handleStopNavigation();
+    } else {
+      // A failed reroute restarts from a fresh fix but keeps the trip going
+      startNavigation(action === 'retry' ? undefined : action);
+    }
+  };
+
+  useEffect(() => {
+    onRouteChange?.(currentRoute);
+  }, [currentRoute, onRouteChange]);
+
+  // The step being walked is the one before the next maneuver
+  const currentStep = isNavigating && currentRoute && nextInstruction
+    ? Math.max(0, currentRoute.instructions.indexOf(nextInstruction) - 1)
+    : null;
+
+  useEffect(() => {
+    onStepChange?.(currentStep);
+  }, [currentStep, onStepChange]);
+
   useEffect(() => {
     if (hasLocationPermission && !isTracking && destination) {
       startTracking();
@@ -72,6 +153,8 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
     return null;
   }
 
+  const hasStartedNavigation = phase !== 'idle';
+
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
       {/* Header */}
@@ -89,7 +172,7 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
             </div>
           </div>
           
-          {!hasStartedNavigation ? (
+          {phase === 'arrived' ? null : !hasStartedNavigation ? (
             <button
               onClick={handleStartNavigation}
               disabled={isRequestingPermission}
@@ -108,13 +191,31 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
               )}
             </button>
           ) : (
-            <button
-              onClick={handleStopNavigation}
-              className="bg-red-500/80 hover:bg-red-500 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-            >
-              <StopCircle className="h-4 w-4 mr-2 inline" />
-              Stop
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={toggleMute}
+                aria-label={isMuted ? 'Unmute voice guidance' : 'Mute voice guidance'}
+                aria-pressed={isMuted}
+                className="bg-white/20 hover:bg-white/30 p-2 rounded-lg transition-colors"
+              >
+                {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={toggleHaptics}
+                aria-label={hapticsEnabled ? 'Turn off vibration' : 'Turn on vibration'}
+                aria-pressed={!hapticsEnabled}
+                className="bg-white/20 hover:bg-white/30 p-2 rounded-lg transition-colors"
+              >
+                {hapticsEnabled ? <Vibrate className="h-4 w-4" /> : <VibrateOff className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={handleStopNavigation}
+                className="bg-red-500/80 hover:bg-red-500 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                <StopCircle className="h-4 w-4 mr-2 inline" />
+                Stop
+              </button>
+            </div>
           )}
         </div>
       </div>
@@ -146,6 +247,63 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
           </div>
         )}
 
+        {routeError && (
+          <RouteErrorNotice error={routeError} onAction={handleRouteErrorAction} busy={isRecalculating} />
+        )}
+
+        {(phase === 'acquiring_fix' || phase === 'routing') && (
+          <div className="bg-blue-50 border border-blue-200 rounded-xl p-3">
+            <div className="flex items-center space-x-3">
+              <div className="h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+              <p className="text-sm text-blue-800">
+                {phase === 'acquiring_fix' ? 'Waiting for your location...' : 'Finding your route...'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {phase === 'arrived' && (
+          <div className="bg-green-50 border border-green-200 rounded-xl p-4 space-y-4">
+            <div className="flex items-center space-x-3">
+              <div className="bg-green-100 p-2 rounded-lg">
+                <Flag className="h-5 w-5 text-green-700" />
+              </div>
+              <div>
+                <p className="font-semibold text-green-900">You have arrived</p>
+                <p className="text-sm text-green-700">{destination.name || 'Destination'}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-center">
+              <div className="bg-white rounded-lg p-3">
+                <p className="text-2xl font-bold text-gray-900">
+                  {tripSummary.startedAt !== null && tripSummary.endedAt !== null
+                    ? formatDuration(tripSummary.endedAt - tripSummary.startedAt)
+                    : '--'}
+                </p>
+                <p className="text-xs text-gray-600">Time • planned {Math.ceil(tripSummary.plannedMinutes)} min</p>
+              </div>
+              <div className="bg-white rounded-lg p-3">
+                <p className="text-2xl font-bold text-gray-900">{formatDistance(tripSummary.distanceWalked)}</p>
+                <p className="text-xs text-gray-600">Walked • planned {formatDistance(tripSummary.plannedDistance)}</p>
+              </div>
+            </div>
+
+            {tripSummary.reroutes > 0 && (
+              <p className="text-xs text-green-700 text-center">
+                Rerouted {tripSummary.reroutes} {tripSummary.reroutes === 1 ? 'time' : 'times'} on the way
+              </p>
+            )}
+
+            <button
+              onClick={handleStopNavigation}
+              className="w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
         {isNavigating && currentRoute && (
           <>
             {/* Route Progress */}
@@ -165,8 +323,8 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
             {nextInstruction && (
               <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
                 <div className="flex items-start space-x-3">
-                  <div className="bg-blue-100 p-2 rounded-lg">
-                    <Navigation className="h-4 w-4 text-blue-600" />
+                  <div className="bg-blue-100 w-9 h-9 rounded-lg flex items-center justify-center text-lg text-blue-700">
+                    {getManeuverSymbol(nextInstruction.maneuver_type)}
                   </div>
                   <div className="flex-1">
                     <p className="font-medium text-blue-900">{nextInstruction.instruction}</p>
@@ -212,12 +370,14 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
 
             <div className="grid grid-cols-2 gap-4 text-center">
               <div className="bg-gray-50 rounded-lg p-3">
-                <p className="text-2xl font-bold text-gray-900">{currentRoute.total_distance}m</p>
-                <p className="text-xs text-gray-600">Total Distance</p>
+                <p className="text-2xl font-bold text-gray-900">{formatDistance(remainingDistance)}</p>
+                <p className="text-xs text-gray-600">Remaining</p>
               </div>
               <div className="bg-gray-50 rounded-lg p-3">
-                <p className="text-2xl font-bold text-gray-900">{currentRoute.estimated_time_minutes}min</p>
-                <p className="text-xs text-gray-600">Est. Time</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {estimatedArrival ? formatClockTime(estimatedArrival) : '--:--'}
+                </p>
+                <p className="text-xs text-gray-600">Arrival • {Math.ceil(remainingTimeMinutes)} min left</p>
               </div>
             </div>
 
@@ -232,7 +392,7 @@ export default function LiveNavigation({ destination, onNavigationEnd }: LiveNav
           </>
         )}
 
-        {!isNavigating && hasLocationPermission && (
+        {phase === 'idle' && hasLocationPermission && (
           <div className="text-center py-4">
             <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-3" />
             <p className="text-sm text-gray-600 mb-4">
@@ -0,0 +1,197 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { Bug, ChevronDown, ChevronUp } from 'lucide-react';
+import { RouteData } from '../types/route';
+import { useLocation } from '../contexts/LocationContext';
+import {
+  browserLocationSource,
+  createReplayLocationSource,
+  createSimulatedLocationSource,
+  LocationSourceId,
+  parseTrack,
+  TrackPoint,
+} from '../lib/locationSources';
+
+interface LocationDevPanelProps {
+  route: RouteData | null;
+}
+
+const SOURCE_OPTIONS: Array<{ id: LocationSourceId; label: string }> = [
+  { id: 'browser', label: 'Device GPS' },
+  { id: 'simulator', label: 'Simulate walk' },
+  { id: 'replay', label: 'Replay track' },
+];
+
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+// Developer tool for reproducing navigation flows without walking around campus
+export default function LocationDevPanel({ route }: LocationDevPanelProps) {
+  const { locationSource, setLocationSource, rawLocation } = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sourceId, setSourceId] = useState<LocationSourceId>(locationSource.id);
+  const [speed, setSpeed] = useState(1.4);
+  const [noise, setNoise] = useState(5);
+  const [leaveRouteAt, setLeaveRouteAt] = useState('');
+  const [track, setTrack] = useState<TrackPoint[] | null>(null);
+  const [trackName, setTrackName] = useState('');
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [trackError, setTrackError] = useState<string | null>(null);
+
+  const canApply = sourceId === 'browser' ||
+    (sourceId === 'simulator' && !!route) ||
+    (sourceId === 'replay' && !!track);
+
+  const handleTrackFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setTrack(parseTrack(await file.text()));
+      setTrackName(file.name);
+      setTrackError(null);
+    } catch (error) {
+      setTrack(null);
+      setTrackError(error instanceof Error ? error.message : 'Could not read the track');
+    }
+  };
+
+  const handleApply = () => {
+    if (sourceId === 'simulator' && route) {
+      setLocationSource(createSimulatedLocationSource({
+        path: route.path_coordinates,
+        speed,
+        noise,
+        leaveRouteAt: leaveRouteAt === '' ? undefined : Number(leaveRouteAt),
+      }));
+    } else if (sourceId === 'replay' && track) {
+      setLocationSource(createReplayLocationSource(track, { speedFactor: replaySpeed }));
+    } else {
+      setLocationSource(browserLocationSource);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-dashed border-gray-300 overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span className="flex items-center space-x-2">
+          <Bug className="h-4 w-4 text-gray-500" />
+          <span>Location source: {locationSource.label}</span>
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 text-sm">
+          <div className="grid grid-cols-3 gap-2">
+            {SOURCE_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setSourceId(option.id)}
+                className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                  sourceId === option.id
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {sourceId === 'simulator' && (
+            route ? (
+              <div className="grid grid-cols-3 gap-2">
+                <label className="text-xs text-gray-600">
+                  Speed (m/s)
+                  <input
+                    type="number"
+                    min={0.5}
+                    step={0.1}
+                    value={speed}
+                    onChange={event => setSpeed(Number(event.target.value))}
+                    className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  GPS noise (m)
+                  <input
+                    type="number"
+                    min={0}
+                    value={noise}
+                    onChange={event => setNoise(Number(event.target.value))}
+                    className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Leave route at (m)
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="never"
+                    value={leaveRouteAt}
+                    onChange={event => setLeaveRouteAt(event.target.value)}
+                    className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-gray-900"
+                  />
+                </label>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Find a route first; the simulator walks the selected route.</p>
+            )
+          )}
+
+          {sourceId === 'replay' && (
+            <div className="space-y-2">
+              <input
+                type="file"
+                accept=".gpx,.geojson,.json"
+                onChange={handleTrackFile}
+                className="block w-full text-xs text-gray-600"
+              />
+              {track && (
+                <p className="text-xs text-gray-500">{trackName}: {track.length} points</p>
+              )}
+              {trackError && <p className="text-xs text-red-600">{trackError}</p>}
+              <div className="flex items-center space-x-2 text-xs text-gray-600">
+                <span>Speed</span>
+                {REPLAY_SPEEDS.map(factor => (
+                  <button
+                    key={factor}
+                    type="button"
+                    onClick={() => setReplaySpeed(factor)}
+                    className={`px-2 py-0.5 rounded border ${
+                      replaySpeed === factor ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-200'
+                    }`}
+                  >
+                    {factor}×
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {rawLocation
+                ? `Last fix ${rawLocation.latitude.toFixed(5)}, ${rawLocation.longitude.toFixed(5)} ±${Math.round(rawLocation.accuracy)}m`
+                : 'No fix yet'}
+            </span>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!canApply}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -90,6 +90,7 @@ export default function LocationSelector({
       'Recreation': '⚽',
       'Healthcare': '🏥',
       'Parking': '🚗',
+      'Bike Dock': '🚲',
       'Entry': '🚪',
       'Research': '🔬',
       'Current': '📍'
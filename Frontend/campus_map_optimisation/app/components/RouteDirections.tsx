@@ -1,6 +1,6 @@
 'use client';
 
-import { RouteData } from '../types/route';
+import { ManeuverType, RouteData } from '../types/route';
 import { Navigation, MapPin, Clock, ArrowRight, RotateCcw } from 'lucide-react';
 
 interface RouteDirectionsProps {
@@ -9,16 +9,28 @@ interface RouteDirectionsProps {
 }
 
 export default function RouteDirections({ route, onReset }: RouteDirectionsProps) {
-  const getDirectionIcon = (instruction: string) => {
-    const lowercaseInstruction = instruction.toLowerCase();
-    
-    if (lowercaseInstruction.includes('start')) return '🚀';
-    if (lowercaseInstruction.includes('arrived') || lowercaseInstruction.includes('destination')) return '🏁';
-    if (lowercaseInstruction.includes('right')) return '↗️';
-    if (lowercaseInstruction.includes('left')) return '↖️';
-    if (lowercaseInstruction.includes('straight') || lowercaseInstruction.includes('continue')) return '⬆️';
-    if (lowercaseInstruction.includes('u-turn')) return '↪️';
-    return '📍';
+  // By maneuver, as instruction text can name places like "Pass SARC on your right"
+  const getDirectionIcon = (maneuver: ManeuverType) => {
+    switch (maneuver) {
+      case 'depart':
+        return '🚀';
+      case 'arrive':
+        return '🏁';
+      case 'slight_right':
+      case 'right':
+      case 'sharp_right':
+        return '↗️';
+      case 'slight_left':
+      case 'left':
+      case 'sharp_left':
+        return '↖️';
+      case 'straight':
+        return '⬆️';
+      case 'uturn':
+        return '↪️';
+      default:
+        return '📍';
+    }
   };
 
   return (
@@ -33,7 +45,7 @@ export default function RouteDirections({ route, onReset }: RouteDirectionsProps
             <div>
               <h3 className="font-bold text-lg">Route Directions</h3>
               <p className="text-blue-100 text-sm">
-                {route.total_distance}m • {route.estimated_time_minutes} min walk
+                {route.total_distance}m • {route.estimated_time_minutes} min
               </p>
             </div>
           </div>
@@ -107,7 +119,7 @@ export default function RouteDirections({ route, onReset }: RouteDirectionsProps
                         {instruction.distance}m
                       </span>
                       <span className="text-xs text-gray-400">
-                        ({Math.round(instruction.distance / 80)} min)
+                        ({Math.round((instruction.distance / route.total_distance) * route.estimated_time_minutes)} min)
                       </span>
                     </div>
                   )}
@@ -115,7 +127,7 @@ export default function RouteDirections({ route, onReset }: RouteDirectionsProps
 
                 {/* Direction Icon */}
                 <div className="flex-shrink-0 text-lg">
-                  {getDirectionIcon(instruction.instruction)}
+                  {getDirectionIcon(instruction.maneuver_type)}
                 </div>
               </div>
             ))}
@@ -0,0 +1,52 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { getRecoveryActions, RECOVERY_ACTION_LABELS, ROUTE_ERROR_INFO, RouteError, RouteRecoveryAction } from '../lib/routeErrors';
+import { getRoutingMode } from '../lib/routing';
+
+interface RouteErrorNoticeProps {
+  error: RouteError;
+  onAction: (action: RouteRecoveryAction) => void;
+  // Actions the caller can carry out; others suggested for the error are hidden
+  availableActions?: RouteRecoveryAction[];
+  busy?: boolean;
+}
+
+export default function RouteErrorNotice({ error, onAction, availableActions, busy = false }: RouteErrorNoticeProps) {
+  const { title } = ROUTE_ERROR_INFO[error.code];
+  const actions = getRecoveryActions(error, getRoutingMode());
+  const visibleActions = availableActions
+    ? actions.filter(action => availableActions.includes(action))
+    : actions;
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-2xl p-4">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-red-800">{title}</p>
+          <p className="text-xs text-red-700 mt-1">{error.message}</p>
+          {visibleActions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {visibleActions.map((action, index) => (
+                <button
+                  key={action}
+                  type="button"
+                  onClick={() => onAction(action)}
+                  disabled={busy}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+                    index === 0
+                      ? 'bg-red-600 text-white hover:bg-red-700'
+                      : 'bg-white text-red-700 border border-red-200 hover:bg-red-100'
+                  }`}
+                >
+                  {RECOVERY_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { MapPin, Navigation, RotateCcw, ArrowRight, Map } from 'lucide-react';
-import { RouteFormData } from '../types/route';
+import { useState } from 'react';
+import { MapPin, Navigation, RotateCcw, ArrowRight, Plus, X, ChevronUp, ChevronDown, Accessibility, Gauge } from 'lucide-react';
+import { PaceProfile, RouteFormData, RoutingProfile } from '../types/route';
+import { ROUTING_PROFILES } from '../lib/routing';
+import { DEFAULT_PACE, getTravelMode, PACE_PROFILES } from '../lib/pace';
 import { Location } from '../types/location';
 import LocationSelector from './LocationSelector';
 
@@ -10,182 +12,289 @@ interface RouteFormProps {
   onSubmit: (data: RouteFormData) => void;
   loading: boolean;
   onReset: () => void;
-  coordinates?: RouteFormData;
   onCoordinateChange?: (coords: RouteFormData) => void;
-  onLocationSelect?: (location: 'start' | 'end' | null) => void;
 }
 
+interface StopEntry {
+  key: number;
+  location: Location | null;
+}
+
+let nextStopKey = 0;
+const createStop = (location: Location | null = null): StopEntry => ({ key: nextStopKey++, location });
+
 export default function RouteForm({ 
   onSubmit, 
   loading, 
   onReset, 
-  coordinates,
   onCoordinateChange,
-  onLocationSelect 
 }: RouteFormProps) {
-  const [formData, setFormData] = useState<RouteFormData>(
-    coordinates || {
-      startLat: 28.525237,
-      startLng: 77.570965,
-      endLat: 28.525503,
-      endLng: 77.575042,
-    }
-  );
+  const [stops, setStops] = useState<StopEntry[]>(() => [createStop(), createStop()]);
+  const [optimiseOrder, setOptimiseOrder] = useState(false);
+  const [profile, setProfile] = useState<RoutingProfile>('standard');
+  const [pace, setPace] = useState<PaceProfile>(DEFAULT_PACE);
+  const [useShuttle, setUseShuttle] = useState(true);
 
-  const [selectedStartLocation, setSelectedStartLocation] = useState<Location | null>(null);
-  const [selectedEndLocation, setSelectedEndLocation] = useState<Location | null>(null);
+  const selectedStartLocation = stops[0].location;
+  const selectedEndLocation = stops[stops.length - 1].location;
+  const canReorder = stops.length > 3;
+  // Shuttles are only planned for direct walking trips
+  const canUseShuttle = stops.length === 2 && getTravelMode(pace) === 'walk';
 
-  const [errors, setErrors] = useState<Partial<RouteFormData>>({});
+  const toFormData = (entries: StopEntry[], optimise: boolean = optimiseOrder): RouteFormData => ({
+    stops: entries
+      .filter((entry): entry is StopEntry & { location: Location } => entry.location !== null)
+      .map(({ location }) => ({ lat: location.lat, lng: location.lng, name: location.name })),
+    optimiseOrder: optimise && entries.length > 3,
+    profile,
+    pace,
+    useShuttle: useShuttle && entries.length === 2 && getTravelMode(pace) === 'walk',
+  });
 
-  // Sync with external coordinates
-  useEffect(() => {
-    if (coordinates) {
-      setFormData(coordinates);
+  const updateStops = (entries: StopEntry[]) => {
+    setStops(entries);
+    
+    // Notify parent component
+    if (onCoordinateChange) {
+      onCoordinateChange(toFormData(entries));
     }
-  }, [coordinates]);
+  };
 
   const validateForm = (): boolean => {
-    return selectedStartLocation !== null && selectedEndLocation !== null;
+    return stops.every(stop => stop.location !== null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      onSubmit(formData);
+      onSubmit(toFormData(stops));
     }
   };
 
   const handleReset = () => {
-    const defaultData = {
-      startLat: 28.525237,
-      startLng: 77.570965,
-      endLat: 28.525503,
-      endLng: 77.575042,
-    };
-    setFormData(defaultData);
-    setErrors({});
-    setSelectedStartLocation(null);
-    setSelectedEndLocation(null);
-    
-    // Notify parent component
-    if (onCoordinateChange) {
-      onCoordinateChange(defaultData);
-    }
-    
+    const defaultStops = [createStop(), createStop()];
+    setOptimiseOrder(false);
+    setProfile('standard');
+    setPace(DEFAULT_PACE);
+    setUseShuttle(true);
+    updateStops(defaultStops);
     onReset();
   };
 
-  const handleStartLocationChange = (location: Location | null) => {
-    setSelectedStartLocation(location);
-    if (location) {
-      const newFormData = {
-        ...formData,
-        startLat: location.lat,
-        startLng: location.lng,
-      };
-      setFormData(newFormData);
-      if (onCoordinateChange) {
-        onCoordinateChange(newFormData);
-      }
-    }
+  const handleStopChange = (index: number, location: Location | null) => {
+    updateStops(stops.map((stop, i) => (i === index ? { ...stop, location } : stop)));
   };
 
-  const handleEndLocationChange = (location: Location | null) => {
-    setSelectedEndLocation(location);
-    if (location) {
-      const newFormData = {
-        ...formData,
-        endLat: location.lat,
-        endLng: location.lng,
-      };
-      setFormData(newFormData);
-      if (onCoordinateChange) {
-        onCoordinateChange(newFormData);
-      }
-    }
+  // New stops are inserted just before the destination
+  const addStop = () => {
+    updateStops([...stops.slice(0, -1), createStop(), stops[stops.length - 1]]);
+  };
+
+  const removeStop = (index: number) => {
+    updateStops(stops.filter((_, i) => i !== index));
+  };
+
+  const moveStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stops.length) return;
+
+    const reordered = [...stops];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateStops(reordered);
   };
 
   const swapLocations = () => {
-    const swappedData = {
-      startLat: formData.endLat,
-      startLng: formData.endLng,
-      endLat: formData.startLat,
-      endLng: formData.startLng,
-    };
-    setFormData(swappedData);
-    
-    // Swap selected locations too
-    const tempLocation = selectedStartLocation;
-    setSelectedStartLocation(selectedEndLocation);
-    setSelectedEndLocation(tempLocation);
-    
-    // Notify parent component
-    if (onCoordinateChange) {
-      onCoordinateChange(swappedData);
-    }
+    // Reverse the whole trip, including intermediate stops
+    updateStops([...stops].reverse());
+  };
+
+  const getStopLabel = (index: number) => {
+    if (index === 0) return { title: 'From', subtitle: 'Starting point' };
+    if (index === stops.length - 1) return { title: 'To', subtitle: 'Destination' };
+    return { title: `Stop ${index}`, subtitle: 'Waypoint' };
+  };
+
+  const getStopColor = (index: number) => {
+    if (index === 0) return 'from-green-500 to-emerald-600';
+    if (index === stops.length - 1) return 'from-red-500 to-pink-600';
+    return 'from-amber-500 to-orange-600';
   };
 
   return (
     <div className="space-y-4">
-      {/* Start Location */}
-      <div className="space-y-3">
-        <div className="flex items-center space-x-3">
-          <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-600 rounded-xl flex items-center justify-center">
-            <MapPin className="h-4 w-4 text-white" />
-          </div>
-          <div>
-            <h3 className="font-semibold text-gray-900">From</h3>
-            <p className="text-xs text-gray-500">Starting point</p>
+      {stops.map((stop, index) => {
+        const label = getStopLabel(index);
+        const neighbour = stops[index === 0 ? 1 : index - 1];
+
+        return (
+          <div key={stop.key} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className={`w-8 h-8 bg-gradient-to-r ${getStopColor(index)} rounded-xl flex items-center justify-center`}>
+                  <MapPin className="h-4 w-4 text-white" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-900">{label.title}</h3>
+                  <p className="text-xs text-gray-500">{label.subtitle}</p>
+                </div>
+              </div>
+              {stops.length > 2 && (
+                <div className="flex items-center space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => moveStop(index, -1)}
+                    disabled={loading || index === 0}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveStop(index, 1)}
+                    disabled={loading || index === stops.length - 1}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeStop(index)}
+                    disabled={loading}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Remove stop"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+            <LocationSelector
+              value={stop.location}
+              onChange={location => handleStopChange(index, location)}
+              placeholder={index === 0 ? 'Choose starting location' : index === stops.length - 1 ? 'Choose destination' : 'Choose a stop'}
+              allowCurrentLocation={index === 0}
+              excludeLocationId={neighbour?.location?.id}
+            />
           </div>
-        </div>
-        <LocationSelector
-          value={selectedStartLocation}
-          onChange={handleStartLocationChange}
-          placeholder="Choose starting location"
-          allowCurrentLocation={true}
-          excludeLocationId={selectedEndLocation?.id}
-        />
-      </div>
+        );
+      })}
 
-      {/* Swap Button */}
-      <div className="flex justify-center py-2">
+      {/* Stop Controls */}
+      <div className="flex items-center justify-between py-2">
+        <button
+          type="button"
+          onClick={addStop}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-xl transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add stop</span>
+        </button>
         <button
           type="button"
           onClick={swapLocations}
           disabled={loading || !selectedStartLocation || !selectedEndLocation}
           className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed"
-          title="Swap locations"
+          title="Reverse route"
         >
           <RotateCcw className="h-5 w-5" />
         </button>
       </div>
 
-      {/* End Location */}
-      <div className="space-y-3">
-        <div className="flex items-center space-x-3">
-          <div className="w-8 h-8 bg-gradient-to-r from-red-500 to-pink-600 rounded-xl flex items-center justify-center">
-            <MapPin className="h-4 w-4 text-white" />
-          </div>
+      {/* Stop Order Optimisation */}
+      {canReorder && (
+        <label className="flex items-center justify-between p-3 bg-gray-50 rounded-xl cursor-pointer">
           <div>
-            <h3 className="font-semibold text-gray-900">To</h3>
-            <p className="text-xs text-gray-500">Destination</p>
+            <p className="text-sm font-medium text-gray-900">Optimise stop order</p>
+            <p className="text-xs text-gray-500">Visit waypoints in the order with the shortest walk</p>
           </div>
+          <input
+            type="checkbox"
+            checked={optimiseOrder}
+            onChange={e => setOptimiseOrder(e.target.checked)}
+            disabled={loading}
+            className="h-5 w-5 rounded text-blue-600 focus:ring-blue-500"
+          />
+        </label>
+      )}
+
+      {/* Routing Profile */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Accessibility className="h-4 w-4 text-gray-500" />
+          <p className="text-sm font-medium text-gray-900">Route profile</p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {ROUTING_PROFILES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setProfile(option.id)}
+              disabled={loading}
+              title={option.description}
+              className={`px-3 py-2 rounded-xl text-sm font-medium border-2 transition-colors disabled:opacity-50 ${
+                profile === option.id
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
-        <LocationSelector
-          value={selectedEndLocation}
-          onChange={handleEndLocationChange}
-          placeholder="Choose destination"
-          allowCurrentLocation={false}
-          excludeLocationId={selectedStartLocation?.id}
-        />
       </div>
 
+      {/* Pace */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Gauge className="h-4 w-4 text-gray-500" />
+          <p className="text-sm font-medium text-gray-900">Pace</p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {PACE_PROFILES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setPace(option.id)}
+              disabled={loading}
+              title={option.description}
+              className={`px-3 py-2 rounded-xl text-sm font-medium border-2 transition-colors disabled:opacity-50 ${
+                pace === option.id
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Campus Shuttle */}
+      {canUseShuttle && (
+        <label className="flex items-center justify-between p-3 bg-gray-50 rounded-xl cursor-pointer">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Use the campus shuttle</p>
+            <p className="text-xs text-gray-500">Catch the shuttle when it gets you there sooner than walking</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={useShuttle}
+            onChange={e => setUseShuttle(e.target.checked)}
+            disabled={loading}
+            className="h-5 w-5 rounded text-blue-600 focus:ring-blue-500"
+          />
+        </label>
+      )}
+
       {/* Action Button */}
       <div className="pt-3">
         <button
           type="button"
           onClick={handleSubmit}
-          disabled={loading || !selectedStartLocation || !selectedEndLocation}
+          disabled={loading || !validateForm()}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-4 rounded-2xl font-semibold hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-3 shadow-lg hover:shadow-xl active:scale-[0.98]"
         >
           {loading ? (
@@ -204,26 +313,28 @@ export default function RouteForm({
       </div>
 
       {/* Reset Button */}
-      {(selectedStartLocation || selectedEndLocation) && (
+      {(stops.some(stop => stop.location) || stops.length > 2) && (
         <button
           type="button"
           onClick={handleReset}
           disabled={loading}
           className="w-full text-gray-600 hover:text-gray-800 py-2 text-sm font-medium transition-colors disabled:opacity-50"
         >
-          Reset locations
+          Reset stops
         </button>
       )}
 
       {/* Validation Message */}
-      {(!selectedStartLocation || !selectedEndLocation) && (
+      {!validateForm() && (
         <div className="text-center py-2">
           <p className="text-xs text-gray-400">
             {!selectedStartLocation && !selectedEndLocation 
               ? "Select both locations to find route"
               : !selectedStartLocation 
               ? "Choose a starting point"
-              : "Choose a destination"
+              : !selectedEndLocation
+              ? "Choose a destination"
+              : "Choose a location for every stop"
             }
           </p>
         </div>
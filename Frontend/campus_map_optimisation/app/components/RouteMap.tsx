@@ -1,10 +1,16 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents, Circle } from 'react-leaflet';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Compass, Footprints, LocateFixed } from 'lucide-react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents, Circle, CircleMarker, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
 import { RouteData, Coordinate } from '../types/route';
 import { useLocation } from '../contexts/LocationContext';
+import { requestOrientationPermission, useDeviceHeading } from '../hooks/useDeviceHeading';
+import { bearingDelta, haversineDistance } from '../lib/geo';
+import { closestPointOnPolyline, cumulativeDistances, segmentBearing } from '../lib/geometry';
+import { getManeuverSymbol, getRouteColor, getStepPath } from '../lib/routeDisplay';
+import { formatClockTime } from '../lib/routing';
 import './map.css';
 
 // Fix for default markers in react-leaflet
@@ -34,7 +40,7 @@ const createCustomIcon = (color: string, isStart: boolean = false, isEnd: boolea
 
 // User location marker with direction indicator
 const createUserLocationIcon = (heading?: number) => {
-  const rotation = heading ? `transform: rotate(${heading}deg);` : '';
+  const rotation = heading !== undefined ? `transform: rotate(${heading}deg);` : '';
   const iconHtml = `
     <div class="user-location-marker" style="${rotation}">
       <div class="user-location-dot"></div>
@@ -50,8 +56,48 @@ const createUserLocationIcon = (heading?: number) => {
   });
 };
 
+// Arrow pointing along the route after a maneuver
+const createTurnArrowIcon = (bearing: number, color: string) => L.divIcon({
+  html: `<div class="turn-arrow-icon" style="border-color: ${color}; color: ${color};"><span style="display: inline-block; transform: rotate(${bearing}deg);">▲</span></div>`,
+  className: 'custom-marker',
+  iconSize: [22, 22],
+  iconAnchor: [11, 11],
+});
+
+// Colour of the part of the route already walked
+const TRAVELED_COLOR = '#9ca3af';
+
+// Breadcrumb points closer than this to the previous one are skipped
+const MIN_BREADCRUMB_SPACING = 3; // meters
+const MAX_BREADCRUMB_POINTS = 2000;
+
 const startIcon = createCustomIcon('#10b981', true);
 const endIcon = createCustomIcon('#ef4444', false, true);
+const stopIcon = createCustomIcon('#f59e0b');
+
+const violationIcon = L.divIcon({
+  html: '<div class="custom-marker-icon" style="background-color: #f59e0b;">⚠️</div>',
+  className: 'custom-marker',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  popupAnchor: [0, -12],
+});
+
+const bikeDockIcon = L.divIcon({
+  html: '<div class="custom-marker-icon" style="background-color: #16a34a;">🚲</div>',
+  className: 'custom-marker',
+  iconSize: [26, 26],
+  iconAnchor: [13, 13],
+  popupAnchor: [0, -13],
+});
+
+const shuttleStopIcon = L.divIcon({
+  html: '<div class="custom-marker-icon" style="background-color: #4f46e5;">🚌</div>',
+  className: 'custom-marker',
+  iconSize: [26, 26],
+  iconAnchor: [13, 13],
+  popupAnchor: [0, -13],
+});
 
 interface MapViewProps {
   center: [number, number];
@@ -71,30 +117,86 @@ function MapClickHandler({ onMapClick }: { onMapClick?: (lat: number, lng: numbe
   return null;
 }
 
-// Component to fit map bounds to route or user location
-function MapBounds({ route, userLocation, isNavigating }: { 
+// Component to fit map bounds to the route when it changes outside navigation
+function MapBounds({ route, isNavigating }: { 
   route?: RouteData | null; 
-  userLocation?: { lat: number; lng: number } | null;
   isNavigating?: boolean;
 }) {
   const map = useMap();
   
   useEffect(() => {
-    if (isNavigating && userLocation) {
-      // During navigation, center on user location
-      map.setView([userLocation.lat, userLocation.lng], 18, { animate: true });
-    } else if (route && route.path_coordinates.length > 0) {
-      // When showing route, fit to route bounds
+    if (!isNavigating && route && route.path_coordinates.length > 0) {
       const bounds = L.latLngBounds(
         route.path_coordinates.map(coord => [coord.lat, coord.lng] as [number, number])
       );
       map.fitBounds(bounds, { padding: [20, 20] });
     }
-  }, [route, userLocation, isNavigating, map]);
+  }, [route, isNavigating, map]);
   
   return null;
 }
 
+// Zooms to a step when it is picked from the directions list
+function StepFocus({ route, step }: { route?: RouteData | null; step: number | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!route || step === null) return;
+    const path = getStepPath(route, step);
+    if (path.length === 0) return;
+
+    map.fitBounds(L.latLngBounds(path.map(coord => [coord.lat, coord.lng] as [number, number])), {
+      padding: [40, 40],
+      maxZoom: 19,
+    });
+  }, [route, step, map]);
+
+  return null;
+}
+
+// Zoom used when follow mode starts; the user's own zoom is kept afterwards
+const FOLLOW_ZOOM = 18;
+
+// Below this speed GPS headings are noise, so the compass is used instead
+const MIN_HEADING_SPEED = 0.5; // meters per second
+
+// Keeps the user centred while following; dragging the map leaves follow mode
+function FollowUser({ position, isFollowing, isRotated, onUserPan }: {
+  position: [number, number] | null;
+  isFollowing: boolean;
+  isRotated: boolean;
+  onUserPan: () => void;
+}) {
+  const map = useMap();
+  const [lat, lng] = position ?? [null, null];
+
+  useMapEvents({
+    dragstart: onUserPan,
+  });
+
+  // The container changes size when rotation starts or stops
+  useEffect(() => {
+    map.invalidateSize({ pan: false });
+  }, [isRotated, map]);
+
+  // Only entering follow mode changes the zoom; later fixes just pan
+  const centredRef = useRef(false);
+  useEffect(() => {
+    if (!isFollowing || lat === null || lng === null) {
+      centredRef.current = false;
+      return;
+    }
+    if (centredRef.current) {
+      map.panTo([lat, lng], { animate: true });
+    } else {
+      map.setView([lat, lng], Math.max(map.getZoom(), FOLLOW_ZOOM), { animate: true });
+      centredRef.current = true;
+    }
+  }, [lat, lng, isRotated, isFollowing, map]);
+
+  return null;
+}
+
 interface RouteMapProps {
   route?: RouteData | null;
   onMapClick?: (lat: number, lng: number) => void;
@@ -102,6 +204,13 @@ interface RouteMapProps {
   selectedLocation?: 'start' | 'end' | null;
   isNavigating?: boolean;
   showUserLocation?: boolean;
+  routeOptions?: RouteData[];
+  selectedRouteIndex?: number;
+  onSelectRoute?: (index: number) => void;
+  selectedStep?: number | null;
+  highlightedStep?: number | null; // hovered or selected, here or in the directions list
+  onSelectStep?: (index: number) => void;
+  onHoverStep?: (index: number | null) => void;
 }
 
 export default function RouteMap({ 
@@ -110,10 +219,130 @@ export default function RouteMap({
   height = '400px',
   selectedLocation,
   isNavigating = false,
-  showUserLocation = true
+  showUserLocation = true,
+  routeOptions = [],
+  selectedRouteIndex = 0,
+  onSelectRoute,
+  selectedStep = null,
+  highlightedStep = null,
+  onSelectStep,
+  onHoverStep
 }: RouteMapProps) {
   const mapRef = useRef<L.Map>(null);
-  const { currentLocation, isTracking } = useLocation();
+  const { currentLocation, matchedLocation, rawLocation, isTracking } = useLocation();
+  // Marker sits on the matched path; the accuracy circle stays on the smoothed fix
+  const markerLocation = matchedLocation ?? currentLocation;
+
+  const [isFollowing, setIsFollowing] = useState(true);
+  const [orientation, setOrientation] = useState<'north_up' | 'heading_up'>('north_up');
+  const deviceHeading = useDeviceHeading(isNavigating && orientation === 'heading_up');
+
+  // Every navigation session starts in follow mode
+  useEffect(() => {
+    if (isNavigating) setIsFollowing(true);
+  }, [isNavigating]);
+
+  // Looking at a step means no longer following the user
+  useEffect(() => {
+    if (selectedStep !== null) setIsFollowing(false);
+  }, [selectedStep]);
+
+  // GPS course while walking, the compass while standing still
+  const gpsHeading = currentLocation?.speed !== undefined && currentLocation.speed >= MIN_HEADING_SPEED
+    ? currentLocation.heading
+    : undefined;
+  const heading = gpsHeading ?? deviceHeading ?? currentLocation?.heading;
+
+  const isRotated = isNavigating && isFollowing && orientation === 'heading_up' && heading !== undefined;
+
+  // Accumulate the rotation so crossing north turns the short way instead of spinning around
+  const [rotation, setRotation] = useState(0);
+  const targetRotation = isRotated && heading !== undefined ? -heading : 0;
+  useEffect(() => {
+    setRotation(previous => previous + bearingDelta(previous, targetRotation));
+  }, [targetRotation]);
+
+  const toggleOrientation = async () => {
+    if (orientation === 'north_up') {
+      await requestOrientationPermission();
+      setOrientation('heading_up');
+    } else {
+      setOrientation('north_up');
+    }
+  };
+
+  // GPS track walked during this navigation session, as reported by the device
+  const [breadcrumb, setBreadcrumb] = useState<Coordinate[]>([]);
+  const [showBreadcrumb, setShowBreadcrumb] = useState(true);
+
+  useEffect(() => {
+    if (isNavigating) setBreadcrumb([]);
+  }, [isNavigating]);
+
+  useEffect(() => {
+    if (!isNavigating || !rawLocation) return;
+    const point = { lat: rawLocation.latitude, lng: rawLocation.longitude };
+    setBreadcrumb(track => {
+      const last = track[track.length - 1];
+      if (last && haversineDistance(last, point) < MIN_BREADCRUMB_SPACING) return track;
+      return [...track.slice(-(MAX_BREADCRUMB_POINTS - 1)), point];
+    });
+  }, [rawLocation, isNavigating]);
+
+  const routeDistances = useMemo(() => cumulativeDistances(route?.path_coordinates ?? []), [route]);
+
+  // Route split at the user's position on it while navigating
+  const routeSplit = useMemo(() => {
+    const path = route?.path_coordinates;
+    if (!isNavigating || !markerLocation || !path || path.length < 2) return null;
+
+    const projection = closestPointOnPolyline(
+      { lat: markerLocation.latitude, lng: markerLocation.longitude },
+      path,
+      routeDistances
+    );
+    if (!projection) return null;
+
+    const splitIndex = projection.segmentIndex + 1;
+    return {
+      segmentIndex: projection.segmentIndex,
+      traveled: [...path.slice(0, splitIndex), projection.point],
+      remaining: [projection.point, ...path.slice(splitIndex)],
+    };
+  }, [route, routeDistances, isNavigating, markerLocation]);
+
+  const stepPaths = useMemo(
+    () => route?.instructions.map((_, index) => getStepPath(route, index).map(coord => [coord.lat, coord.lng] as [number, number])) ?? [],
+    [route]
+  );
+
+  // Parts of the route ridden by bike or shuttle
+  const ridePaths = useMemo(
+    () => route?.segments
+      ?.filter(segment => segment.mode !== 'walk')
+      .map(segment => route.path_coordinates
+        .slice(segment.path_start_index, segment.path_end_index + 1)
+        .map(coord => [coord.lat, coord.lng] as [number, number])) ?? [],
+    [route]
+  );
+
+  // Arrow markers for the route's turns; icons are built once per route, not per fix
+  const turnArrows = useMemo(() => {
+    if (!route) return [];
+    return route.instructions
+      .filter(({ maneuver_type }) => !['depart', 'arrive', 'waypoint'].includes(maneuver_type))
+      .map(instruction => ({
+        instruction,
+        icon: createTurnArrowIcon(
+          segmentBearing(route.path_coordinates, instruction.path_index),
+          getRouteColor(selectedRouteIndex)
+        ),
+      }));
+  }, [route, selectedRouteIndex]);
+
+  const followPosition = markerLocation
+    ? [markerLocation.latitude, markerLocation.longitude] as [number, number]
+    : null;
   
   // Default center (campus location)
   const defaultCenter: [number, number] = [28.525237, 77.570965];
@@ -128,120 +357,348 @@ export default function RouteMap({
     [coord.lat, coord.lng] as [number, number]
   ) || [];
 
-  const userLocationIcon = currentLocation?.heading 
-    ? createUserLocationIcon(currentLocation.heading)
-    : createUserLocationIcon();
+  const userLocationIcon = createUserLocationIcon(heading);
 
   return (
     <div className="map-container relative w-full h-full">
-      <MapContainer
-        center={center}
-        zoom={16}
-        className="map-inner w-full h-full"
-        ref={mapRef}
-        zoomControl={true}
-        scrollWheelZoom={true}
-        touchZoom={true}
-        doubleClickZoom={true}
-        dragging={true}
-        attributionControl={true}
-        preferCanvas={false}
+      <div
+        className={`map-rotator ${isRotated ? 'is-rotated' : ''}`}
+        style={{ transform: `translate(-50%, -50%) rotate(${rotation}deg)` }}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
-        
-        {/* Map click handler */}
-        <MapClickHandler onMapClick={onMapClick} />
-        
-        {/* Route polyline */}
-        {route && polylineCoords.length > 0 && (
-          <Polyline
-            positions={polylineCoords}
-            color="#3b82f6"
-            weight={6}
-            opacity={0.8}
+        <MapContainer
+          center={center}
+          zoom={16}
+          className="map-inner w-full h-full"
+          ref={mapRef}
+          zoomControl={true}
+          scrollWheelZoom={true}
+          touchZoom={true}
+          doubleClickZoom={true}
+          dragging={true}
+          attributionControl={true}
+          preferCanvas={true}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
-        )}
-
-        {/* User location marker and accuracy circle */}
-        {showUserLocation && currentLocation && isTracking && (
-          <>
-            <Circle
-              center={[currentLocation.latitude, currentLocation.longitude]}
-              radius={currentLocation.accuracy}
-              fillColor="#3b82f6"
-              fillOpacity={0.1}
-              color="#3b82f6"
-              weight={1}
-              opacity={0.3}
+          
+          {/* Map click handler */}
+          <MapClickHandler onMapClick={onMapClick} />
+          
+          {/* Alternative route polylines, click to select */}
+          {!isNavigating && routeOptions.map((option, index) => index !== selectedRouteIndex && (
+            <Polyline
+              key={`alternative-${index}`}
+              positions={option.path_coordinates.map(coord => [coord.lat, coord.lng] as [number, number])}
+              pathOptions={{ color: getRouteColor(index), weight: 5, opacity: 0.5, dashArray: '8 8' }}
+              eventHandlers={{ click: () => onSelectRoute?.(index) }}
+            />
+          ))}
+
+          {/* Route polyline, split into walked and remaining parts while navigating */}
+          {routeSplit ? (
+            <>
+              <Polyline
+                positions={routeSplit.traveled.map(coord => [coord.lat, coord.lng] as [number, number])}
+                pathOptions={{ color: TRAVELED_COLOR, weight: 6, opacity: 0.6 }}
+              />
+              <Polyline
+                positions={routeSplit.remaining.map(coord => [coord.lat, coord.lng] as [number, number])}
+                pathOptions={{ color: getRouteColor(selectedRouteIndex), weight: 7, opacity: 0.9 }}
+              />
+            </>
+          ) : route && polylineCoords.length > 0 && (
+            <Polyline
+              positions={polylineCoords}
+              color={getRouteColor(selectedRouteIndex)}
+              weight={6}
+              opacity={0.8}
+            />
+          )}
+
+          {/* Dashes over the ridden parts of a multimodal route */}
+          {ridePaths.map((positions, index) => (
+            <Polyline
+              key={`ride-${index}`}
+              positions={positions}
+              pathOptions={{ color: '#ffffff', weight: 2, opacity: 0.9, dashArray: '6 8', interactive: false }}
+            />
+          ))}
+
+          {/* Step under the pointer or picked in the directions list */}
+          {highlightedStep !== null && stepPaths[highlightedStep] && (
+            <Polyline
+              positions={stepPaths[highlightedStep]}
+              pathOptions={{ color: '#facc15', weight: 10, opacity: 0.9, interactive: false }}
+            />
+          )}
+
+          {/* Invisible wide lines over each step, so hovering the route highlights its step */}
+          {stepPaths.map((positions, index) => (
+            <Polyline
+              key={`step-hit-${index}`}
+              positions={positions}
+              pathOptions={{ opacity: 0, weight: 16, bubblingMouseEvents: false }}
+              eventHandlers={{
+                mouseover: () => onHoverStep?.(index),
+                mouseout: () => onHoverStep?.(null),
+                click: () => onSelectStep?.(index),
+              }}
+            />
+          ))}
+
+          {/* Breadcrumb trail of the user's actual track */}
+          {isNavigating && showBreadcrumb && breadcrumb.length > 1 && (
+            <Polyline
+              positions={breadcrumb.map(coord => [coord.lat, coord.lng] as [number, number])}
+              pathOptions={{ color: '#6366f1', weight: 3, opacity: 0.8, dashArray: '2 6' }}
             />
+          )}
+
+          {/* Turn arrows for the maneuvers still ahead */}
+          {routeSplit && turnArrows
+            .filter(({ instruction }) => instruction.path_index > routeSplit.segmentIndex)
+            .map(({ instruction, icon }) => (
+              <Marker
+                key={`turn-${instruction.path_index}`}
+                position={[instruction.location.lat, instruction.location.lng]}
+                icon={icon}
+              >
+                <Tooltip direction="top" offset={[0, -10]}>
+                  {getManeuverSymbol(instruction.maneuver_type)} {instruction.instruction}
+                </Tooltip>
+              </Marker>
+            ))}
+
+          {/* Maneuver points, excluding the start and destination which have their own markers */}
+          {!routeSplit && route?.instructions
+            .filter(({ maneuver_type }) => maneuver_type !== 'depart' && maneuver_type !== 'arrive' && maneuver_type !== 'waypoint')
+            .map((instruction, index) => (
+              <CircleMarker
+                key={`maneuver-${index}`}
+                center={[instruction.location.lat, instruction.location.lng]}
+                radius={5}
+                pathOptions={{ color: '#ffffff', weight: 2, fillColor: getRouteColor(selectedRouteIndex), fillOpacity: 1 }}
+              >
+                <Tooltip direction="top" offset={[0, -6]}>
+                  {getManeuverSymbol(instruction.maneuver_type)} {instruction.instruction}
+                </Tooltip>
+              </CircleMarker>
+            ))}
+
+          {/* User location marker and accuracy circle */}
+          {showUserLocation && currentLocation && isTracking && (
+            <>
+              <Circle
+                center={[currentLocation.latitude, currentLocation.longitude]}
+                radius={currentLocation.accuracy}
+                fillColor="#3b82f6"
+                fillOpacity={0.1}
+                color="#3b82f6"
+                weight={1}
+                opacity={0.3}
+              />
+              <Marker
+                position={[markerLocation!.latitude, markerLocation!.longitude]}
+                icon={userLocationIcon}
+              >
+                <Popup>
+                  <div className="text-sm">
+                    <strong className="text-blue-600">Your Location</strong>
+                    <br />
+                    Accuracy: ±{Math.round(currentLocation.accuracy)}m
+                    {currentLocation.speed && (
+                      <>
+                        <br />
+                        Speed: {Math.round(currentLocation.speed * 3.6)} km/h
+                      </>
+                    )}
+                  </div>
+                </Popup>
+              </Marker>
+            </>
+          )}
+          
+          {/* Start marker */}
+          {route && route.start && (
+            <Marker
+              position={[route.start.lat, route.start.lng]}
+              icon={startIcon}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-green-600">Start Point</strong>
+                  <br />
+                  {route.start.lat.toFixed(6)}, {route.start.lng.toFixed(6)}
+                </div>
+              </Popup>
+            </Marker>
+          )}
+          
+          {/* Intermediate stop markers with leg subtotals */}
+          {route?.legs && route.legs.slice(0, -1).map((leg, index) => (
+            <Marker
+              key={`stop-${index}`}
+              position={[leg.end.lat, leg.end.lng]}
+              icon={stopIcon}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-amber-600">{leg.end.name || `Stop ${index + 1}`}</strong>
+                  <br />
+                  <span className="text-gray-600">
+                    Leg {index + 1}: {leg.distance}m ({leg.estimated_time_minutes} min)
+                  </span>
+                </div>
+              </Popup>
+            </Marker>
+          ))}
+          
+          {/* Docks where the bike is picked up and returned */}
+          {route?.segments?.filter(segment => segment.mode === 'cycle').flatMap((segment, index) => [
+            <Marker key={`pickup-${index}`} position={[segment.start.lat, segment.start.lng]} icon={bikeDockIcon}>
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-green-600">{segment.start.name || 'Bike dock'}</strong>
+                  <br />
+                  <span className="text-gray-600">Pick up a bike</span>
+                </div>
+              </Popup>
+            </Marker>,
+            <Marker key={`return-${index}`} position={[segment.end.lat, segment.end.lng]} icon={bikeDockIcon}>
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-green-600">{segment.end.name || 'Bike dock'}</strong>
+                  <br />
+                  <span className="text-gray-600">
+                    Return the bike after {segment.distance}m ({segment.estimated_time_minutes} min)
+                  </span>
+                </div>
+              </Popup>
+            </Marker>,
+          ])}
+
+          {/* Stops where the shuttle is boarded and left */}
+          {route?.segments?.flatMap((segment, index) => segment.shuttle ? [
+            <Marker key={`board-${index}`} position={[segment.start.lat, segment.start.lng]} icon={shuttleStopIcon}>
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-indigo-600">{segment.start.name}</strong>
+                  <br />
+                  <span className="text-gray-600">
+                    Board the {segment.shuttle.line} at {formatClockTime(segment.shuttle.departs_at)}
+                  </span>
+                </div>
+              </Popup>
+            </Marker>,
+            <Marker key={`alight-${index}`} position={[segment.end.lat, segment.end.lng]} icon={shuttleStopIcon}>
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-indigo-600">{segment.end.name}</strong>
+                  <br />
+                  <span className="text-gray-600">Get off at {formatClockTime(segment.shuttle.arrives_at)}</span>
+                </div>
+              </Popup>
+            </Marker>,
+          ] : [])}
+
+          {/* Points where the route breaks the routing profile */}
+          {route?.profile_violations?.map((violation, index) => (
             <Marker
-              position={[currentLocation.latitude, currentLocation.longitude]}
-              icon={userLocationIcon}
+              key={`violation-${index}`}
+              position={[violation.location.lat, violation.location.lng]}
+              icon={violationIcon}
             >
               <Popup>
                 <div className="text-sm">
-                  <strong className="text-blue-600">Your Location</strong>
+                  <strong className="text-amber-600">{violation.reason}</strong>
                   <br />
-                  Accuracy: ±{Math.round(currentLocation.accuracy)}m
-                  {currentLocation.speed && (
-                    <>
-                      <br />
-                      Speed: {Math.round(currentLocation.speed * 3.6)} km/h
-                    </>
-                  )}
+                  <span className="text-gray-600">{violation.distance}m of the route</span>
                 </div>
               </Popup>
             </Marker>
-          </>
-        )}
-        
-        {/* Start marker */}
-        {route && route.start && (
-          <Marker
-            position={[route.start.lat, route.start.lng]}
-            icon={startIcon}
+          ))}
+          
+          {/* End marker */}
+          {route && route.end && (
+            <Marker
+              position={[route.end.lat, route.end.lng]}
+              icon={endIcon}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong className="text-red-600">Destination</strong>
+                  <br />
+                  {route.end.lat.toFixed(6)}, {route.end.lng.toFixed(6)}
+                  <br />
+                  <span className="text-gray-600">
+                    Distance: {route.total_distance}m ({route.estimated_time_minutes} min)
+                  </span>
+                </div>
+              </Popup>
+            </Marker>
+          )}
+          
+          {/* Auto-fit bounds when route changes */}
+          <MapBounds 
+            route={route} 
+            isNavigating={isNavigating}
+          />
+
+          <StepFocus route={route} step={selectedStep} />
+
+          {isNavigating && (
+            <FollowUser
+              position={followPosition}
+              isFollowing={isFollowing}
+              isRotated={isRotated}
+              onUserPan={() => setIsFollowing(false)}
+            />
+          )}
+        </MapContainer>
+      </div>
+
+      {isNavigating && (
+        <div className="map-navigation-controls">
+          <button
+            type="button"
+            onClick={toggleOrientation}
+            aria-label={orientation === 'north_up' ? 'Rotate map with direction of travel' : 'Keep north up'}
+            aria-pressed={orientation === 'heading_up'}
+            className="map-control-button"
           >
-            <Popup>
-              <div className="text-sm">
-                <strong className="text-green-600">Start Point</strong>
-                <br />
-                {route.start.lat.toFixed(6)}, {route.start.lng.toFixed(6)}
-              </div>
-            </Popup>
-          </Marker>
-        )}
-        
-        {/* End marker */}
-        {route && route.end && (
-          <Marker
-            position={[route.end.lat, route.end.lng]}
-            icon={endIcon}
+            {/* The needle points north, so it also shows how the map is rotated */}
+            <Compass className="h-5 w-5" style={{ transform: `rotate(${rotation - 45}deg)` }} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowBreadcrumb(show => !show)}
+            aria-label={showBreadcrumb ? 'Hide your walked track' : 'Show your walked track'}
+            aria-pressed={showBreadcrumb}
+            className="map-control-button"
           >
-            <Popup>
-              <div className="text-sm">
-                <strong className="text-red-600">Destination</strong>
-                <br />
-                {route.end.lat.toFixed(6)}, {route.end.lng.toFixed(6)}
-                <br />
-                <span className="text-gray-600">
-                  Distance: {route.total_distance}m ({route.estimated_time_minutes} min)
-                </span>
-              </div>
-            </Popup>
-          </Marker>
-        )}
-        
-        {/* Auto-fit bounds when route changes */}
-        <MapBounds 
-          route={route} 
-          userLocation={currentLocation ? { lat: currentLocation.latitude, lng: currentLocation.longitude } : null}
-          isNavigating={isNavigating}
-        />
-      </MapContainer>
-      
+            <Footprints className="h-5 w-5" />
+          </button>
+          {!isFollowing && (
+            <button
+              type="button"
+              onClick={() => setIsFollowing(true)}
+              aria-label="Re-centre on your location"
+              className="map-control-button"
+            >
+              <LocateFixed className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Leaflet's own controls are hidden while the map is rotated */}
+      {isRotated && (
+        <div className="map-rotated-attribution">
+          &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors
+        </div>
+      )}
     </div>
   );
 }
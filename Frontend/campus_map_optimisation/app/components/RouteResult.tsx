@@ -1,7 +1,17 @@
 'use client';
 
-import { RouteData } from '../types/route';
-import { Clock, MapPin, Route, RotateCcw, Navigation, ArrowRight, PlayCircle, StopCircle } from 'lucide-react';
+import { useEffect, useRef } from 'react';
+import { RouteData, RoutingProfile, SegmentMode } from '../types/route';
+import { formatClockTime, ROUTING_PROFILES } from '../lib/routing';
+import { countTurns, getManeuverSymbol, getRouteColor } from '../lib/routeDisplay';
+import { describeEta } from '../lib/pace';
+import { Clock, MapPin, Route, RotateCcw, Navigation, ArrowRight, PlayCircle, StopCircle, AlertTriangle, Bike, Bus, Footprints } from 'lucide-react';
+
+const SEGMENT_VERBS: Record<SegmentMode, string> = {
+  walk: 'Walk',
+  cycle: 'Ride',
+  shuttle: 'Shuttle',
+};
 
 interface RouteResultProps {
   route?: RouteData;
@@ -9,9 +19,40 @@ interface RouteResultProps {
   onReset?: () => void;
   onStartNavigation?: () => void;
   isNavigationMode?: boolean;
+  routeOptions?: RouteData[];
+  selectedRouteIndex?: number;
+  onSelectRoute?: (index: number) => void;
+  selectedStep?: number | null;
+  highlightedStep?: number | null; // hovered or selected, here or on the map
+  activeStep?: number | null; // step being walked during navigation
+  onSelectStep?: (index: number) => void;
+  onHoverStep?: (index: number | null) => void;
 }
 
-export default function RouteResult({ route, routeData, onReset, onStartNavigation, isNavigationMode }: RouteResultProps) {
+export default function RouteResult({
+  route,
+  routeData,
+  onReset,
+  onStartNavigation,
+  isNavigationMode,
+  routeOptions = [],
+  selectedRouteIndex = 0,
+  onSelectRoute,
+  selectedStep = null,
+  highlightedStep = null,
+  activeStep = null,
+  onSelectStep,
+  onHoverStep
+}: RouteResultProps) {
+  const stepRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  // Keep the step being walked in view during navigation
+  useEffect(() => {
+    if (activeStep !== null) {
+      stepRefs.current[activeStep]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeStep]);
+
   // Use either route or routeData for backward compatibility
   const data = route || routeData;
   
@@ -28,26 +69,12 @@ export default function RouteResult({ route, routeData, onReset, onStartNavigati
     return `${distance} m`;
   };
 
-  const getInstructionIcon = (instruction: string) => {
-    const text = instruction.toLowerCase();
-    if (text.includes('left')) {
-      return '↰';
-    } else if (text.includes('right')) {
-      return '↱';
-    } else if (text.includes('straight') || text.includes('continue')) {
-      return '↑';
-    } else if (text.includes('u-turn')) {
-      return '↶';
-    } else if (text.includes('start')) {
-      return '🚀';
-    } else if (text.includes('arrived') || text.includes('destination')) {
-      return '🏁';
-    }
-    return '→';
+  const getProfileLabel = (profile?: RoutingProfile) => {
+    return ROUTING_PROFILES.find(option => option.id === profile)?.label ?? 'Standard';
   };
 
-  // Handle different instruction formats
-  const instructions = data.instructions || (data as any).navigation_instructions || [];
+  const instructions = data.instructions;
+  const shuttleSegment = data.segments?.find(segment => segment.mode === 'shuttle');
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -99,6 +126,9 @@ export default function RouteResult({ route, routeData, onReset, onStartNavigati
               <p className="text-lg font-semibold text-gray-900">
                 {data.estimated_time_minutes} min
               </p>
+              {data.eta && (
+                <p className="text-xs text-gray-500">{describeEta(data.eta)}</p>
+              )}
             </div>
           </div>
           
@@ -116,6 +146,140 @@ export default function RouteResult({ route, routeData, onReset, onStartNavigati
         </div>
       </div>
 
+      {/* Routing Profile Warning */}
+      {data.profile_violations && (
+        <div className="px-6 py-4 bg-amber-50 border-b border-amber-200">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-amber-800">
+                No fully {getProfileLabel(data.profile).toLowerCase()} route found
+              </p>
+              <p className="text-xs text-amber-700 mt-1">
+                The closest match breaks the profile at these points:
+              </p>
+              <ul className="mt-2 space-y-1">
+                {data.profile_violations.map((violation, index) => (
+                  <li key={index} className="text-xs text-amber-800">
+                    • {violation.reason} for {formatDistance(violation.distance)} at{' '}
+                    <span className="font-mono">
+                      {formatCoordinate(violation.location.lat, violation.location.lng)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Route Comparison */}
+      {routeOptions.length > 1 && (
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+            <Route className="h-4 w-4 text-blue-600" />
+            <span>Compare Routes</span>
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {routeOptions.map((option, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSelectRoute?.(index)}
+                disabled={isNavigationMode}
+                className={`text-left p-3 rounded-xl border-2 transition-colors disabled:cursor-not-allowed ${
+                  index === selectedRouteIndex
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2 mb-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getRouteColor(index) }} />
+                  <span className="text-sm font-medium text-gray-900">
+                    {index === 0 ? 'Shortest' : `Alternative ${index}`}
+                  </span>
+                </div>
+                <p className="text-lg font-semibold text-gray-900">{formatDistance(option.total_distance)}</p>
+                <p className="text-xs text-gray-600">
+                  {option.estimated_time_minutes} min • {countTurns(option)} turns
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Route Legs */}
+      {data.legs && data.legs.length > 1 && (
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+            <MapPin className="h-4 w-4 text-amber-600" />
+            <span>{data.legs.length} Legs</span>
+          </h4>
+          <div className="space-y-2">
+            {data.legs.map((leg, index) => (
+              <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-amber-100 text-amber-800 text-xs font-bold flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <p className="text-sm text-gray-900 truncate">
+                    {leg.start.name || 'Start'} → {leg.end.name || `Stop ${index + 1}`}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0 ml-3">
+                  <p className="text-sm font-semibold text-gray-900">{formatDistance(leg.distance)}</p>
+                  <p className="text-xs text-gray-600">{leg.estimated_time_minutes} min</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Walking, cycling and shuttle parts of a multimodal route */}
+      {data.segments?.some(segment => segment.mode !== 'walk') && (
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+            {shuttleSegment ? <Bus className="h-4 w-4 text-indigo-600" /> : <Bike className="h-4 w-4 text-green-600" />}
+            <span>{shuttleSegment ? 'Walk and shuttle' : 'Walk and ride'}</span>
+          </h4>
+
+          {/* The departure to catch */}
+          {shuttleSegment?.shuttle && (
+            <div className="mb-3 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
+              <p className="text-sm font-semibold text-indigo-900">
+                Catch the {formatClockTime(shuttleSegment.shuttle.departs_at)} {shuttleSegment.shuttle.line}{' '}
+                {shuttleSegment.shuttle.vehicle}
+              </p>
+              <p className="text-xs text-indigo-700 mt-1">
+                From {shuttleSegment.start.name}, about {Math.round(shuttleSegment.shuttle.wait_minutes)} min wait;
+                arrives {formatClockTime(shuttleSegment.shuttle.arrives_at)} at {shuttleSegment.end.name}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {data.segments.map((segment, index) => (
+              <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 min-w-0">
+                  {segment.mode === 'cycle' && <Bike className="h-4 w-4 text-green-600 flex-shrink-0" />}
+                  {segment.mode === 'shuttle' && <Bus className="h-4 w-4 text-indigo-600 flex-shrink-0" />}
+                  {segment.mode === 'walk' && <Footprints className="h-4 w-4 text-gray-500 flex-shrink-0" />}
+                  <p className="text-sm text-gray-900 truncate">
+                    {SEGMENT_VERBS[segment.mode]} to {segment.end.name || 'the destination'}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0 ml-3">
+                  <p className="text-sm font-semibold text-gray-900">{formatDistance(segment.distance)}</p>
+                  <p className="text-xs text-gray-600">{segment.estimated_time_minutes} min</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Live Navigation Button */}
       {onStartNavigation && (
         <div className="px-6 py-4 border-b border-gray-200">
@@ -190,8 +354,26 @@ export default function RouteResult({ route, routeData, onReset, onStartNavigati
             {instructions.map((instruction, index) => (
               <div
                 key={index}
-                className={`flex items-start space-x-3 p-3 rounded-lg transition-colors ${
-                  index === 0
+                ref={element => { stepRefs.current[index] = element; }}
+                role="button"
+                tabIndex={0}
+                aria-current={index === activeStep ? 'step' : undefined}
+                aria-pressed={index === selectedStep}
+                onClick={() => onSelectStep?.(index)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    onSelectStep?.(index);
+                  }
+                }}
+                onMouseEnter={() => onHoverStep?.(index)}
+                onMouseLeave={() => onHoverStep?.(null)}
+                className={`flex items-start space-x-3 p-3 rounded-lg transition-colors cursor-pointer ${
+                  index === activeStep
+                    ? 'bg-blue-100 border border-blue-400 ring-2 ring-blue-400'
+                    : index === highlightedStep
+                    ? 'bg-yellow-50 border border-yellow-300'
+                    : index === 0
                     ? 'bg-green-50 border border-green-200'
                     : index === instructions.length - 1
                     ? 'bg-blue-50 border border-blue-200'
@@ -209,7 +391,7 @@ export default function RouteResult({ route, routeData, onReset, onStartNavigati
                     }`}
                   >
                     <span className="text-xs">
-                      {getInstructionIcon(instruction.instruction)}
+                      {getManeuverSymbol(instruction.maneuver_type)}
                     </span>
                   </div>
                 </div>
@@ -1,188 +1,178 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
-
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  accuracy: number;
-  heading?: number;
-  speed?: number;
-  timestamp: number;
-}
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Coordinate } from '../types/route';
+import { DEFAULT_LOCATION_FILTER, LocationFilterOptions, LocationFix, createLocationFilter, snapToPath } from '../lib/locationFilter';
+import { closestPointOnGraph, loadCampusGraph, RoutingGraph } from '../lib/routing';
+import { browserLocationSource, LocationErrorCode, LocationSource } from '../lib/locationSources';
+import { useLatestRef } from '../hooks/useLatestRef';
+
+type LocationData = LocationFix;
 
 interface LocationContextType {
+  // Fix as reported by the location source
+  rawLocation: LocationData | null;
+  // Outliers dropped and smoothed; use for deviation and progress
   currentLocation: LocationData | null;
+  // Smoothed fix snapped onto the active route or walking graph; use for display
+  matchedLocation: LocationData | null;
+  // Route to snap to while navigating, or null to snap to the walking graph
+  setMatchPath: (path: Coordinate[] | null) => void;
   isTracking: boolean;
   error: string | null;
   startTracking: () => void;
   stopTracking: () => void;
   hasLocationPermission: boolean;
   requestLocationPermission: () => Promise<boolean>;
+  // Device GPS by default; simulated and replayed sources are for development
+  locationSource: LocationSource;
+  setLocationSource: (source: LocationSource) => void;
 }
 
+const LOCATION_ERROR_MESSAGES: Record<LocationErrorCode, string> = {
+  unsupported: 'Geolocation is not supported by this browser',
+  permission_denied: 'Location access denied. Please enable location services in your browser settings.',
+  unavailable: 'Location information unavailable. Please check your GPS.',
+  timeout: 'Location request timed out. Please try again.',
+};
+
 const LocationContext = createContext<LocationContextType | undefined>(undefined);
 
 interface LocationProviderProps {
   children: ReactNode;
+  // Pass false to use raw fixes without smoothing or snapping
+  filter?: LocationFilterOptions | false;
+  snapToGraph?: boolean;
 }
 
-export function LocationProvider({ children }: LocationProviderProps) {
+export function LocationProvider({ children, filter: filterProp = DEFAULT_LOCATION_FILTER, snapToGraph = true }: LocationProviderProps) {
+  const [rawLocation, setRawLocation] = useState<LocationData | null>(null);
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
+  const [matchPath, setMatchPath] = useState<Coordinate[] | null>(null);
+  const [graph, setGraph] = useState<RoutingGraph | null>(null);
   const [isTracking, setIsTracking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasLocationPermission, setHasLocationPermission] = useState(false);
-  const [watchId, setWatchId] = useState<number | null>(null);
+  const [locationSource, setLocationSourceState] = useState<LocationSource>(browserLocationSource);
+  const stopWatchRef = useRef<(() => void) | null>(null);
+  // Compared by value, so options passed inline do not reset the Kalman state every render
+  const filterEnabled = filterProp !== false;
+  const { maxAccuracy, maxSpeed, smoothing, processNoise, snapDistance } = filterProp || DEFAULT_LOCATION_FILTER;
+  const filter = useMemo<LocationFilterOptions | false>(() => (
+    filterEnabled ? { maxAccuracy, maxSpeed, smoothing, processNoise, snapDistance } : false
+  ), [filterEnabled, maxAccuracy, maxSpeed, smoothing, processNoise, snapDistance]);
+  const locationFilter = useMemo(() => filter ? createLocationFilter(filter) : null, [filter]);
+  const locationFilterRef = useLatestRef(locationFilter);
 
   const checkLocationPermission = useCallback(async () => {
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by this browser');
-      return false;
-    }
-
-    try {
-      const permission = await navigator.permissions.query({ name: 'geolocation' });
-      const isGranted = permission.state === 'granted';
-      setHasLocationPermission(isGranted);
-      return isGranted;
-    } catch {
-      // Fallback for browsers that don't support permissions API
-      // Don't assume permission is granted, let the user trigger the request
-      setHasLocationPermission(false);
-      return false;
-    }
-  }, []);
+    const isGranted = await locationSource.checkPermission();
+    setHasLocationPermission(isGranted);
+    return isGranted;
+  }, [locationSource]);
 
   const startTracking = useCallback(() => {
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by this browser');
-      return;
-    }
-
+    stopWatchRef.current?.();
     setError(null);
     setIsTracking(true);
-
-    const options: PositionOptions = {
-      enableHighAccuracy: true,
-      timeout: 15000, // Increased timeout
-      maximumAge: 5000,
-    };
-
-    const successCallback = (position: GeolocationPosition) => {
-      const locationData: LocationData = {
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-        accuracy: position.coords.accuracy,
-        heading: position.coords.heading || undefined,
-        speed: position.coords.speed || undefined,
-        timestamp: position.timestamp,
-      };
-
-      setCurrentLocation(locationData);
-      setHasLocationPermission(true);
-      setError(null);
-    };
-
-    const errorCallback = (error: GeolocationPositionError) => {
-      let errorMessage = 'Location access denied';
-      
-      switch (error.code) {
-        case error.PERMISSION_DENIED:
-          errorMessage = 'Location access denied. Please enable location services and refresh the page.';
+    locationFilterRef.current?.reset();
+
+    stopWatchRef.current = locationSource.watch(
+      locationData => {
+        setRawLocation(locationData);
+        const filtered = locationFilterRef.current ? locationFilterRef.current.process(locationData) : locationData;
+        if (filtered) {
+          setCurrentLocation(filtered);
+        }
+        setHasLocationPermission(true);
+        setError(null);
+      },
+      code => {
+        setError(LOCATION_ERROR_MESSAGES[code]);
+        if (code === 'permission_denied') {
           setHasLocationPermission(false);
-          break;
-        case error.POSITION_UNAVAILABLE:
-          errorMessage = 'Location information unavailable. Please check your GPS.';
-          break;
-        case error.TIMEOUT:
-          errorMessage = 'Location request timed out. Please try again.';
-          break;
+        }
+        stopWatchRef.current?.();
+        stopWatchRef.current = null;
+        setIsTracking(false);
       }
-
-      setError(errorMessage);
-      setIsTracking(false);
-    };
-
-    const id = navigator.geolocation.watchPosition(
-      successCallback,
-      errorCallback,
-      options
     );
-
-    setWatchId(id);
-  }, []);
+  }, [locationSource]);
 
   const requestLocationPermission = useCallback(async (): Promise<boolean> => {
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by this browser');
+    const code = await locationSource.requestPermission();
+    if (code) {
+      setError(LOCATION_ERROR_MESSAGES[code]);
+      setHasLocationPermission(false);
       return false;
     }
 
-    return new Promise((resolve) => {
-      const options: PositionOptions = {
-        enableHighAccuracy: true,
-        timeout: 15000,
-        maximumAge: 5000,
-      };
-
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setHasLocationPermission(true);
-          setError(null);
-          resolve(true);
-        },
-        (error) => {
-          let errorMessage = 'Location access denied';
-          
-          switch (error.code) {
-            case error.PERMISSION_DENIED:
-              errorMessage = 'Location access denied. Please enable location services in your browser settings.';
-              setHasLocationPermission(false);
-              break;
-            case error.POSITION_UNAVAILABLE:
-              errorMessage = 'Location information unavailable. Please check your GPS.';
-              break;
-            case error.TIMEOUT:
-              errorMessage = 'Location request timed out. Please try again.';
-              break;
-          }
-
-          setError(errorMessage);
-          setHasLocationPermission(false);
-          resolve(false);
-        },
-        options
-      );
-    });
-  }, []);
+    setHasLocationPermission(true);
+    setError(null);
+    return true;
+  }, [locationSource]);
 
   const stopTracking = useCallback(() => {
-    if (watchId !== null) {
-      navigator.geolocation.clearWatch(watchId);
-      setWatchId(null);
-    }
+    stopWatchRef.current?.();
+    stopWatchRef.current = null;
     setIsTracking(false);
-  }, [watchId]);
+  }, []);
+
+  const setLocationSource = useCallback((source: LocationSource) => {
+    setLocationSourceState(source);
+    setRawLocation(null);
+    setCurrentLocation(null);
+  }, []);
 
   useEffect(() => {
     checkLocationPermission();
-    
-    // Cleanup on unmount
-    return () => {
-      if (watchId !== null) {
-        navigator.geolocation.clearWatch(watchId);
+  }, [checkLocationPermission]);
+
+  // Keep tracking across a source switch; startTracking changes with the source
+  useEffect(() => {
+    if (stopWatchRef.current) {
+      startTracking();
+    }
+  }, [startTracking]);
+
+  // Cleanup on unmount
+  useEffect(() => () => stopWatchRef.current?.(), []);
+
+  // The walking graph is only needed for snapping outside navigation
+  useEffect(() => {
+    if (!filter || !snapToGraph || graph) return;
+    loadCampusGraph().then(setGraph).catch(error => console.warn('Graph snapping unavailable:', error));
+  }, [filter, snapToGraph, graph]);
+
+  const matchedLocation = useMemo(() => {
+    if (!currentLocation || !filter) return currentLocation;
+
+    if (matchPath && matchPath.length > 1) {
+      return snapToPath(currentLocation, matchPath, filter.snapDistance);
+    }
+
+    if (snapToGraph && graph) {
+      const closest = closestPointOnGraph(graph, { lat: currentLocation.latitude, lng: currentLocation.longitude });
+      if (closest && closest.distance <= filter.snapDistance) {
+        return { ...currentLocation, latitude: closest.point.lat, longitude: closest.point.lng, snapped: true };
       }
-    };
-  }, [checkLocationPermission, watchId]);
+    }
+
+    return currentLocation;
+  }, [currentLocation, matchPath, filter, snapToGraph, graph]);
 
   const value: LocationContextType = {
+    rawLocation,
     currentLocation,
+    matchedLocation,
+    setMatchPath,
     isTracking,
     error,
     startTracking,
     stopTracking,
     hasLocationPermission,
     requestLocationPermission,
+    locationSource,
+    setLocationSource,
   };
 
   return (
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { bearingDelta } from '../lib/geo';
+import { normalizeBearing } from '../lib/geometry';
+
+// Smaller compass changes are ignored, so the map does not re-render 60 times a second
+const MIN_HEADING_CHANGE = 3; // degrees
+
+type CompassEvent = DeviceOrientationEvent & { webkitCompassHeading?: number };
+
+// iOS only delivers orientation events after the user allows it; call from a user gesture
+export async function requestOrientationPermission(): Promise<boolean> {
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<PermissionState> })
+    .requestPermission;
+  if (!request) return true;
+
+  try {
+    return (await request()) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+// Compass heading of the device (0 = north), or null without a compass
+export function useDeviceHeading(enabled: boolean): number | null {
+  const [heading, setHeading] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled || typeof DeviceOrientationEvent === 'undefined') {
+      setHeading(null);
+      return;
+    }
+
+    const handleOrientation = (event: CompassEvent) => {
+      const next = event.webkitCompassHeading ??
+        // alpha grows counter-clockwise from north
+        (event.absolute && event.alpha !== null ? normalizeBearing(360 - event.alpha) : null);
+      if (next === null) return;
+
+      setHeading(previous => {
+        if (previous === null) return next;
+        return Math.abs(bearingDelta(previous, next)) < MIN_HEADING_CHANGE ? previous : next;
+      });
+    };
+
+    // Chrome reports compass-referenced angles only on the absolute event
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+    window.addEventListener(eventName, handleOrientation as EventListener);
+    return () => window.removeEventListener(eventName, handleOrientation as EventListener);
+  }, [enabled]);
+
+  return heading;
+}
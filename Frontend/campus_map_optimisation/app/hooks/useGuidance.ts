@@ -0,0 +1,102 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Instruction, RouteData } from '../types/route';
+import { NavigationPhase } from '../lib/navigationMachine';
+import {
+  createPromptScheduler,
+  DEFAULT_GUIDANCE,
+  GuidanceOptions,
+  playChime,
+  speak,
+  unlockAudio,
+  vibrate,
+} from '../lib/guidance';
+import { useLatestRef } from './useLatestRef';
+
+interface UseGuidanceProps {
+  phase: NavigationPhase;
+  route: RouteData | null;
+  nextInstruction: Instruction | null;
+  distanceToNextInstruction: number;
+  destinationName?: string;
+  options?: GuidanceOptions;
+}
+
+// Spoken prompts, chimes and vibration for the maneuvers useNavigation reports
+export function useGuidance({
+  phase,
+  route,
+  nextInstruction,
+  distanceToNextInstruction,
+  destinationName,
+  options = DEFAULT_GUIDANCE,
+}: UseGuidanceProps) {
+  const [isMuted, setIsMuted] = useState(false);
+  const [hapticsEnabled, setHapticsEnabled] = useState(true);
+  const scheduler = useMemo(() => createPromptScheduler(options), [options]);
+
+  // Read inside effects so toggling does not re-announce anything
+  const settingsRef = useLatestRef({ isMuted, hapticsEnabled });
+
+  // A new route has new path indices
+  useEffect(() => {
+    scheduler.reset();
+  }, [route, scheduler]);
+
+  useEffect(() => {
+    if (phase !== 'navigating' || !nextInstruction) return;
+
+    const prompt = scheduler.next(nextInstruction, distanceToNextInstruction);
+    if (!prompt) return;
+
+    const { isMuted, hapticsEnabled } = settingsRef.current;
+    if (!isMuted) {
+      speak(prompt.text, options.lang);
+      if (prompt.immediate) playChime('turn');
+    }
+    if (hapticsEnabled && prompt.immediate) {
+      vibrate(prompt.maneuver);
+    }
+  }, [phase, nextInstruction, distanceToNextInstruction, scheduler, options]);
+
+  // Announce arrival once per trip, even if the name or language changes afterwards
+  const arrivalAnnouncedRef = useRef(false);
+  useEffect(() => {
+    if (phase !== 'arrived') {
+      arrivalAnnouncedRef.current = false;
+      return;
+    }
+    if (arrivalAnnouncedRef.current) return;
+    arrivalAnnouncedRef.current = true;
+
+    const { isMuted, hapticsEnabled } = settingsRef.current;
+    if (!isMuted) {
+      speak(`You have arrived at ${destinationName || 'your destination'}`, options.lang);
+      playChime('arrive');
+    }
+    if (hapticsEnabled) {
+      vibrate('arrive');
+    }
+  }, [phase, destinationName, options.lang]);
+
+  const toggleMute = useCallback(() => {
+    if (isMuted) {
+      unlockAudio();
+    } else if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+    setIsMuted(!isMuted);
+  }, [isMuted]);
+
+  const toggleHaptics = useCallback(() => setHapticsEnabled(enabled => !enabled), []);
+
+  return {
+    isMuted,
+    toggleMute,
+    hapticsEnabled,
+    toggleHaptics,
+    // Call from the gesture that starts navigation so chimes may play
+    unlockAudio,
+  };
+}
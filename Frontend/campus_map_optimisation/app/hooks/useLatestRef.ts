@@ -0,0 +1,14 @@
+'use client';
+
+import { useLayoutEffect, useRef } from 'react';
+
+// Ref to the value of the last committed render, for effects and timers that must not
+// re-run when it changes. Updated in a layout effect, so it is current before any
+// passive effect runs and a render React throws away never leaks into it.
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value);
+  useLayoutEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
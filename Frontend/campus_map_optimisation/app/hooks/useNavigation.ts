@@ -1,67 +1,47 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
 import { useLocation } from '../contexts/LocationContext';
-import { RouteData } from '../types/route';
-
-interface NavigationState {
-  currentRoute: RouteData | null;
-  isNavigating: boolean;
-  distanceToRoute: number;
-  nextInstruction: any;
-  routeProgress: number;
-  shouldRecalculate: boolean;
-}
+import { useLatestRef } from './useLatestRef';
+import { Coordinate, PaceProfile, RouteData, RoutingProfile } from '../types/route';
+import { routeProvider } from '../lib/routeClient';
+import { RouteRecoveryAction, toRouteError } from '../lib/routeErrors';
+import { findNearestGate, loadCampusGraph, offlineRouteProvider, RouteProvider } from '../lib/routing';
+import { haversineDistance } from '../lib/geo';
+import { closestPointOnPolyline, cumulativeDistances } from '../lib/geometry';
+import { LocationFix } from '../lib/locationFilter';
+import { ACTIVE_PHASES, initialNavigationState, navigationReducer } from '../lib/navigationMachine';
+import {
+  createOffRouteDetector,
+  DEFAULT_REROUTE_POLICY,
+  findNextLeg,
+  findRejoinIndex,
+  getRerouteDelay,
+  joinRoute,
+  ReroutePolicy,
+} from '../lib/reroutePolicy';
+import {
+  applyPace,
+  createPaceSample,
+  DEFAULT_PACE,
+  getCalibratedSpeed,
+  getTravelMode,
+  loadPaceCalibration,
+  recordPaceSample,
+} from '../lib/pace';
 
 interface UseNavigationProps {
   destination: { lat: number; lng: number } | null;
-  maxDistanceFromRoute?: number; // meters
-  recalculationThreshold?: number; // meters
-}
-
-// Simple distance calculation between two points
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
-// Calculate distance from a point to a line segment
-function distanceToLineSegment(
-  pointLat: number,
-  pointLng: number,
-  line1Lat: number,
-  line1Lng: number,
-  line2Lat: number,
-  line2Lng: number
-): number {
-  const A = pointLat - line1Lat;
-  const B = pointLng - line1Lng;
-  const C = line2Lat - line1Lat;
-  const D = line2Lng - line1Lng;
-
-  const dot = A * C + B * D;
-  const lenSq = C * C + D * D;
-  
-  if (lenSq === 0) {
-    return calculateDistance(pointLat, pointLng, line1Lat, line1Lng);
-  }
-
-  let param = dot / lenSq;
-  param = Math.max(0, Math.min(1, param));
-
-  const xx = line1Lat + param * C;
-  const yy = line1Lng + param * D;
-
-  return calculateDistance(pointLat, pointLng, xx, yy);
+  // Route planned before starting, e.g. the alternative picked in the comparison; followed
+  // instead of a fresh route, which is only requested to reroute
+  plannedRoute?: RouteData | null;
+  maxDistanceFromRoute?: number; // meters; one confident fix this far reroutes at once
+  recalculationThreshold?: number; // meters; farther fixes count towards a reroute
+  arrivalRadius?: number; // meters from the destination that count as arrived
+  reroutePolicy?: Partial<ReroutePolicy>;
+  profile?: RoutingProfile;
+  pace?: PaceProfile;
+  useShuttle?: boolean; // also plan walk → shuttle → walk from the user's position
 }
 
 // Route cache
@@ -70,28 +50,70 @@ const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 export function useNavigation({
   destination,
+  plannedRoute = null,
   maxDistanceFromRoute = 50,
-  recalculationThreshold = 25
+  recalculationThreshold = 25,
+  arrivalRadius = 20,
+  reroutePolicy,
+  profile = 'standard',
+  pace = DEFAULT_PACE,
+  useShuttle = false
 }: UseNavigationProps) {
-  const { currentLocation, isTracking } = useLocation();
-  const [navigationState, setNavigationState] = useState<NavigationState>({
-    currentRoute: null,
-    isNavigating: false,
-    distanceToRoute: 0,
-    nextInstruction: null,
-    routeProgress: 0,
-    shouldRecalculate: false,
-  });
-
-  const [routeCalculationInProgress, setRouteCalculationInProgress] = useState(false);
-
-  // Generate cache key for route
+  const { currentLocation, isTracking, setMatchPath } = useLocation();
+  const [machine, dispatch] = useReducer(navigationReducer, initialNavigationState);
+  const { phase, route: currentRoute } = machine;
+  const isNavigating = ACTIVE_PHASES.includes(phase);
+
+  // Route requests read the latest fix without re-running on every update
+  const locationRef = useLatestRef(currentLocation);
+
+  // Compared by value, so a policy object passed inline does not reset the detector every render
+  const {
+    offRouteDistance = recalculationThreshold,
+    maxOffRouteDistance = maxDistanceFromRoute,
+    onRouteDistance = DEFAULT_REROUTE_POLICY.onRouteDistance,
+    minOffRouteFixes = DEFAULT_REROUTE_POLICY.minOffRouteFixes,
+    minOffRouteDuration = DEFAULT_REROUTE_POLICY.minOffRouteDuration,
+    minRerouteInterval = DEFAULT_REROUTE_POLICY.minRerouteInterval,
+    rejoinTolerance = DEFAULT_REROUTE_POLICY.rejoinTolerance,
+  } = reroutePolicy ?? {};
+  const policy = useMemo<ReroutePolicy>(() => ({
+    offRouteDistance,
+    maxOffRouteDistance,
+    onRouteDistance,
+    minOffRouteFixes,
+    minOffRouteDuration,
+    minRerouteInterval,
+    // A longer way back is not worth keeping over a fresh route
+    rejoinTolerance: Math.min(rejoinTolerance, 1),
+  }), [
+    offRouteDistance,
+    maxOffRouteDistance,
+    onRouteDistance,
+    minOffRouteFixes,
+    minOffRouteDuration,
+    minRerouteInterval,
+    rejoinTolerance,
+  ]);
+
+  const offRouteDetector = useMemo(() => createOffRouteDetector(policy), [policy]);
+  const offRouteRef = useRef(false);
+
+  // How far along the route the user was at the last on-route fix
+  const lastAlongTrackRef = useRef(0);
+
+  // Generate cache key for route; 5 decimals (~1 m) so a cached route starts where the user is
   const generateCacheKey = useCallback((start: { lat: number; lng: number }, end: { lat: number; lng: number }) => {
-    return `${start.lat.toFixed(4)},${start.lng.toFixed(4)}-${end.lat.toFixed(4)},${end.lng.toFixed(4)}`;
-  }, []);
+    return `${start.lat.toFixed(5)},${start.lng.toFixed(5)}-${end.lat.toFixed(5)},${end.lng.toFixed(5)}-${profile}-${pace}-${useShuttle}`;
+  }, [profile, pace, useShuttle]);
 
   // Get route from cache or API
-  const getRoute = useCallback(async (start: { lat: number; lng: number }, end: { lat: number; lng: number }) => {
+  const getRoute = useCallback(async (
+    start: { lat: number; lng: number },
+    end: { lat: number; lng: number },
+    provider: RouteProvider = routeProvider,
+    signal?: AbortSignal
+  ) => {
     const cacheKey = generateCacheKey(start, end);
     const cached = routeCache.get(cacheKey);
     
@@ -102,221 +124,339 @@ export function useNavigation({
 
     // Fetch new route
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-      const url = `${apiUrl}/route?start_lat=${start.lat}&start_lng=${start.lng}&end_lat=${end.lat}&end_lng=${end.lng}`;
-      
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data.success) {
-        // Cache the route
+      const calibration = loadPaceCalibration(pace);
+      const route = applyPace(
+        await provider(start, end, {
+          profile,
+          mode: getTravelMode(pace),
+          useShuttle,
+          walkingSpeed: getCalibratedSpeed(calibration),
+          pace,
+          signal,
+        }),
+        calibration
+      );
+
+      // Cache the route, unless it depends on a shuttle departure that will soon be gone
+      if (!route.segments?.some(segment => segment.mode === 'shuttle')) {
         routeCache.set(cacheKey, {
-          route: data.route,
+          route,
           timestamp: Date.now()
         });
-        return data.route;
-      } else {
-        throw new Error(data.error || 'Failed to calculate route');
       }
+      return route;
     } catch (error) {
       console.error('Route calculation error:', error);
       throw error;
     }
-  }, [generateCacheKey]);
+  }, [generateCacheKey, profile, pace, useShuttle]);
 
-  // Calculate distance from current location to route path
-  const distanceToCurrentRoute = useMemo(() => {
-    if (!currentLocation || !navigationState.currentRoute) {
-      return 0;
-    }
+  // Snap the displayed position to the route being followed
+  useEffect(() => {
+    setMatchPath(currentRoute?.path_coordinates ?? null);
+  }, [currentRoute, setMatchPath]);
 
-    const route = navigationState.currentRoute;
-    const coords = route.path_coordinates;
-    
-    if (coords.length < 2) {
-      return 0;
+  // Every new route starts with a clean off-route history
+  useEffect(() => {
+    offRouteDetector.reset();
+    offRouteRef.current = false;
+    lastAlongTrackRef.current = 0;
+  }, [currentRoute, offRouteDetector]);
+
+  // Cumulative distances along the route, reused for every location fix
+  const routeDistances = useMemo(
+    () => cumulativeDistances(currentRoute?.path_coordinates ?? []),
+    [currentRoute]
+  );
+
+  // Closest point on the route to the current location
+  const routeProjection = useMemo(() => {
+    const coords = currentRoute?.path_coordinates;
+    if (!currentLocation || !coords || coords.length < 2) {
+      return null;
     }
 
-    let minDistance = Infinity;
-    
-    // Check distance to each segment of the route
-    for (let i = 0; i < coords.length - 1; i++) {
-      const distance = distanceToLineSegment(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        coords[i].lat,
-        coords[i].lng,
-        coords[i + 1].lat,
-        coords[i + 1].lng
-      );
-      minDistance = Math.min(minDistance, distance);
-    }
+    return closestPointOnPolyline(
+      { lat: currentLocation.latitude, lng: currentLocation.longitude },
+      coords,
+      routeDistances
+    );
+  }, [currentLocation, currentRoute, routeDistances]);
 
-    return minDistance;
-  }, [currentLocation, navigationState.currentRoute]);
+  // Calculate distance from current location to route path
+  const distanceToCurrentRoute = routeProjection?.distance ?? 0;
 
   // Calculate route progress and next instruction
   const routeProgress = useMemo(() => {
-    if (!currentLocation || !navigationState.currentRoute) {
-      return { progress: 0, nextInstruction: null, distanceToNext: 0 };
+    if (!currentRoute || !routeProjection) {
+      return { progress: 0, nextInstruction: null, distanceToNext: 0, remainingDistance: 0, remainingTimeMinutes: 0 };
     }
 
-    const route = navigationState.currentRoute;
-    const coords = route.path_coordinates;
-    
-    if (coords.length < 2) {
-      return { progress: 0, nextInstruction: null, distanceToNext: 0 };
+    const route = currentRoute;
+
+    // Calculate progress as the share of the route distance already walked
+    const totalDistance = routeDistances[routeDistances.length - 1];
+    const progress = totalDistance > 0 ? Math.min(100, (routeProjection.alongTrack / totalDistance) * 100) : 0;
+
+    // The next maneuver is the first one whose point lies beyond the current segment
+    const nextInstruction = route.instructions.find(
+      instruction => instruction.path_index > routeProjection.segmentIndex
+    ) ?? null;
+
+    // Distance along the route to the maneuver point, not as the crow flies
+    const distanceToNext = nextInstruction
+      ? Math.max(0, routeDistances[nextInstruction.path_index] - routeProjection.alongTrack)
+      : 0;
+
+    // Remaining time at the pace the route estimate was made with
+    const remainingDistance = Math.max(0, totalDistance - routeProjection.alongTrack);
+    const remainingTimeMinutes = totalDistance > 0
+      ? (remainingDistance / totalDistance) * route.estimated_time_minutes
+      : 0;
+
+    return { progress, nextInstruction, distanceToNext, remainingDistance, remainingTimeMinutes };
+  }, [currentRoute, routeProjection, routeDistances]);
+
+  // Clock time of arrival, counted from the last fix so rendering stays pure
+  const { lastFixAt } = machine;
+  const estimatedArrival = useMemo(() => (
+    currentRoute && routeProjection && lastFixAt !== null
+      ? new Date(lastFixAt + routeProgress.remainingTimeMinutes * 60 * 1000)
+      : null
+  ), [currentRoute, routeProjection, lastFixAt, routeProgress.remainingTimeMinutes]);
+
+  // Route from the current location to the destination. Recovering from OUT_OF_BOUNDS moves
+  // whichever end the error named to its nearest campus gate.
+  const resolveRouteEnds = useCallback(async (
+    location: Coordinate,
+    end: Coordinate,
+    recovery?: RouteRecoveryAction,
+    role: 'start' | 'end' = 'start'
+  ): Promise<[Coordinate, Coordinate]> => {
+    if (recovery !== 'snap_to_gate') {
+      return [location, end];
     }
 
-    // Find closest point on route
-    let closestSegmentIndex = 0;
-    let minDistance = Infinity;
-    
-    for (let i = 0; i < coords.length - 1; i++) {
-      const distance = distanceToLineSegment(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        coords[i].lat,
-        coords[i].lng,
-        coords[i + 1].lat,
-        coords[i + 1].lng
-      );
-      
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestSegmentIndex = i;
-      }
-    }
+    const graph = await loadCampusGraph();
+    const snap = (point: Coordinate) => {
+      const gate = findNearestGate(graph, point);
+      return gate === -1 ? point : graph.coordinates[gate];
+    };
+    return role === 'end' ? [location, snap(end)] : [snap(location), end];
+  }, []);
 
-    // Calculate progress as percentage
-    const totalSegments = coords.length - 1;
-    const progress = Math.min(100, (closestSegmentIndex / totalSegments) * 100);
-
-    // Get next instruction
-    const instructions = route.instructions || [];
-    let nextInstruction = null;
-    let distanceToNext = 0;
-
-    // Find the next instruction after current position
-    for (let i = closestSegmentIndex; i < instructions.length; i++) {
-      if (instructions[i]) {
-        nextInstruction = instructions[i];
-        // Calculate distance to next instruction point (simplified)
-        if (i < coords.length) {
-          distanceToNext = calculateDistance(
-            currentLocation.latitude,
-            currentLocation.longitude,
-            coords[i].lat,
-            coords[i].lng
-          );
-        }
-        break;
+  // acquiring_fix: a fix that arrived before START counts as the first one
+  useEffect(() => {
+    const location = locationRef.current;
+    if (phase === 'acquiring_fix' && location) {
+      dispatch({
+        type: 'FIX',
+        position: { lat: location.latitude, lng: location.longitude },
+        timestamp: location.timestamp,
+        offRoute: false,
+        arrived: false,
+      });
+    }
+  }, [phase]);
+
+  // Fresh route from where the user is now, unless walking back to the route is about as short
+  const planReroute = useCallback(async (
+    route: RouteData,
+    distances: number[],
+    alongTrack: number,
+    start: Coordinate,
+    signal: AbortSignal
+  ): Promise<RouteData> => {
+    const lastIndex = route.path_coordinates.length - 1;
+    // A multi-stop route is rerouted to the next stop not reached yet, then follows the plan
+    const leg = findNextLeg(route, distances, alongTrack);
+    const stopIndex = leg?.path_end_index ?? lastIndex;
+    const found = findRejoinIndex(route, distances, alongTrack, start, stopIndex);
+    // Rejoining at the stop is the same request as the fresh route
+    const rejoinIndex = found === stopIndex ? null : found;
+
+    const [fresh, approach] = await Promise.all([
+      leg && stopIndex < lastIndex
+        ? getRoute(start, leg.end, routeProvider, signal).then(toStop => joinRoute(toStop, route, stopIndex, distances))
+        // The route's own end, which is the nearest gate if the destination was snapped
+        : getRoute(start, route.end, routeProvider, signal),
+      rejoinIndex === null
+        ? null
+        : getRoute(start, route.path_coordinates[rejoinIndex], routeProvider, signal).catch(() => null),
+    ]);
+
+    if (approach && rejoinIndex !== null) {
+      const rejoined = joinRoute(approach, route, rejoinIndex, distances);
+      if (rejoined.total_distance <= fresh.total_distance * policy.rejoinTolerance) {
+        return rejoined;
       }
     }
+    return fresh;
+  }, [getRoute, policy]);
+
+  // Route request for the current phase from the latest fix, or null without a fix or destination.
+  // Held in a ref so that only a phase change starts a request, not later fixes.
+  const requestRoute = (signal: AbortSignal): Promise<RouteData> | null => {
+    const location = locationRef.current;
+    if (!location || !destination) {
+      return null;
+    }
 
-    return { progress, nextInstruction, distanceToNext };
-  }, [currentLocation, navigationState.currentRoute]);
+    const position = { lat: location.latitude, lng: location.longitude };
+    if (phase === 'rerouting' && currentRoute) {
+      return planReroute(currentRoute, routeDistances, lastAlongTrackRef.current, position, signal);
+    }
+    // The planned route, joined from wherever the user starts; recovering with the offline
+    // router or a gate needs a request of its own
+    if (plannedRoute && machine.recovery !== 'use_offline' && machine.recovery !== 'snap_to_gate') {
+      const distances = cumulativeDistances(plannedRoute.path_coordinates);
+      const projection = closestPointOnPolyline(position, plannedRoute.path_coordinates, distances);
+      return projection && projection.distance <= policy.offRouteDistance
+        ? Promise.resolve(plannedRoute)
+        : planReroute(plannedRoute, distances, 0, position, signal);
+    }
+    return resolveRouteEnds(position, destination, machine.recovery, machine.recoveryRole).then(([start, end]) => getRoute(
+      start,
+      end,
+      machine.recovery === 'use_offline' ? offlineRouteProvider : routeProvider,
+      signal
+    ));
+  };
+  const requestRouteRef = useLatestRef(requestRoute);
 
-  // Start navigation
-  const startNavigation = useCallback(async () => {
-    if (!currentLocation || !destination) {
+  // routing and rerouting: request a route from the latest fix
+  useEffect(() => {
+    if (phase !== 'routing' && phase !== 'rerouting') {
       return;
     }
 
-    setRouteCalculationInProgress(true);
+    // Leaving the phase (STOP, or a newer request) cancels this one
+    const controller = new AbortController();
+    const request = requestRouteRef.current(controller.signal);
+    if (!request) {
+      return;
+    }
 
-    try {
-      const route = await getRoute(
-        { lat: currentLocation.latitude, lng: currentLocation.longitude },
-        destination
+    request
+      .then(route => {
+        if (!controller.signal.aborted) dispatch({ type: 'ROUTE_READY', route, timestamp: Date.now() });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to calculate navigation route:', error);
+        dispatch({ type: 'ROUTE_FAILED', error: toRouteError(error) });
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [phase]);
+
+  // Feed a fix to the state machine; held in a ref because only new fixes are events,
+  // while the derived values it reads change with them
+  const handleFix = (location: LocationFix) => {
+    const position = { lat: location.latitude, lng: location.longitude };
+    const arrived = !!destination && (
+      haversineDistance(position, destination) <= arrivalRadius ||
+      (routeProjection !== null && routeProgress.remainingDistance <= arrivalRadius &&
+        routeProjection.distance <= policy.offRouteDistance)
+    );
+
+    // Only the route being followed says anything about leaving it
+    if (routeProjection && phase !== 'rerouting') {
+      // Weighted by how accurate the GPS was, not by the smoothed estimate, which
+      // soon claims a few meters however noisy the fixes are
+      offRouteRef.current = offRouteDetector.update(
+        routeProjection.distance,
+        location.measurementAccuracy ?? location.accuracy,
+        location.timestamp
       );
+      if (routeProjection.distance <= policy.onRouteDistance) {
+        lastAlongTrackRef.current = routeProjection.alongTrack;
+      }
+    }
 
-      setNavigationState(prev => ({
-        ...prev,
-        currentRoute: route,
-        isNavigating: true,
-        shouldRecalculate: false,
-      }));
-    } catch (error) {
-      console.error('Failed to start navigation:', error);
-    } finally {
-      setRouteCalculationInProgress(false);
+    dispatch({
+      type: 'FIX',
+      position,
+      timestamp: location.timestamp,
+      offRoute: offRouteRef.current,
+      arrived,
+    });
+  };
+  const handleFixRef = useLatestRef(handleFix);
+
+  useEffect(() => {
+    if (currentLocation) {
+      handleFixRef.current(currentLocation);
     }
-  }, [currentLocation, destination, getRoute]);
+  }, [currentLocation]);
 
-  // Stop navigation
-  const stopNavigation = useCallback(() => {
-    setNavigationState(prev => ({
-      ...prev,
-      currentRoute: null,
-      isNavigating: false,
-      distanceToRoute: 0,
-      nextInstruction: null,
-      routeProgress: 0,
-      shouldRecalculate: false,
-    }));
-  }, []);
+  // Read when the reroute timer fires, which must not restart as the user moves
+  const distanceToRouteRef = useLatestRef(distanceToCurrentRoute);
 
-  // Recalculate route when user deviates
-  const recalculateRoute = useCallback(async () => {
-    if (!currentLocation || !destination || routeCalculationInProgress) {
+  // off_route: reroute, but no sooner than minRerouteInterval after the last route arrived
+  const { routedAt } = machine;
+  useEffect(() => {
+    if (phase !== 'off_route') {
       return;
     }
 
-    setRouteCalculationInProgress(true);
+    const wait = getRerouteDelay({ minRerouteInterval }, routedAt, Date.now());
+    const timer = setTimeout(() => {
+      console.log(`User is ${distanceToRouteRef.current.toFixed(1)}m from route, recalculating...`);
+      dispatch({ type: 'REROUTE' });
+    }, wait);
 
-    try {
-      const newRoute = await getRoute(
-        { lat: currentLocation.latitude, lng: currentLocation.longitude },
-        destination
-      );
+    return () => clearTimeout(timer);
+  }, [phase, routedAt, minRerouteInterval]);
 
-      setNavigationState(prev => ({
-        ...prev,
-        currentRoute: newRoute,
-        shouldRecalculate: false,
-      }));
-    } catch (error) {
-      console.error('Failed to recalculate route:', error);
-    } finally {
-      setRouteCalculationInProgress(false);
-    }
-  }, [currentLocation, destination, getRoute, routeCalculationInProgress]);
-
-  // Monitor location and update navigation state
+  // Completed trips teach the ETA the user's own pace, once per trip
+  const { trip } = machine;
+  const recordedTripRef = useRef<typeof trip>(null);
   useEffect(() => {
-    if (!navigationState.isNavigating || !currentLocation) {
-      return;
-    }
+    if (phase !== 'arrived' || recordedTripRef.current === trip) return;
+    recordedTripRef.current = trip;
+    // Waiting for and riding the shuttle says nothing about the user's pace
+    if (currentRoute?.segments?.some(segment => segment.mode === 'shuttle')) return;
+
+    const sample = createPaceSample(trip, loadPaceCalibration(pace));
+    if (sample) recordPaceSample(sample);
+  }, [phase, trip, currentRoute, pace]);
+
+  // Start navigation, optionally applying a recovery action after a failed attempt
+  const startNavigation = useCallback((recovery?: RouteRecoveryAction) => {
+    dispatch({ type: 'START', recovery });
+  }, []);
 
-    const distanceToRoute = distanceToCurrentRoute;
-    const shouldRecalculate = distanceToRoute > recalculationThreshold;
-
-    setNavigationState(prev => ({
-      ...prev,
-      distanceToRoute,
-      nextInstruction: routeProgress.nextInstruction,
-      routeProgress: routeProgress.progress,
-      shouldRecalculate,
-    }));
-
-    // Auto-recalculate if user is too far from route
-    if (shouldRecalculate && !routeCalculationInProgress) {
-      console.log(`User is ${distanceToRoute.toFixed(1)}m from route, recalculating...`);
-      recalculateRoute();
-    }
-  }, [currentLocation, navigationState.isNavigating, distanceToCurrentRoute, routeProgress, recalculationThreshold, recalculateRoute, routeCalculationInProgress]);
+  const stopNavigation = useCallback(() => {
+    dispatch({ type: 'STOP' });
+  }, []);
+
+  // Recalculate route on request, e.g. from the deviation banner
+  const recalculateRoute = useCallback(() => {
+    dispatch({ type: 'REROUTE' });
+  }, []);
 
   return {
-    ...navigationState,
+    phase,
+    currentRoute,
+    isNavigating,
+    distanceToRoute: distanceToCurrentRoute,
+    shouldRecalculate: phase === 'off_route',
     currentLocation,
     isTracking,
     routeProgress: routeProgress.progress,
     nextInstruction: routeProgress.nextInstruction,
     distanceToNextInstruction: routeProgress.distanceToNext,
+    remainingDistance: routeProgress.remainingDistance,
+    remainingTimeMinutes: routeProgress.remainingTimeMinutes,
+    estimatedArrival,
+    tripSummary: machine.trip,
     startNavigation,
     stopNavigation,
     recalculateRoute,
-    isRecalculating: routeCalculationInProgress,
+    isRecalculating: phase === 'routing' || phase === 'rerouting',
+    routeError: machine.error,
   };
 }
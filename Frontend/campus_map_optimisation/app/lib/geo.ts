@@ -0,0 +1,36 @@
+import { Coordinate } from '../types/route';
+
+export const EARTH_RADIUS = 6371e3; // meters
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance between two points in meters
+export function haversineDistance(a: Coordinate, b: Coordinate): number {
+  const φ1 = toRadians(a.lat);
+  const φ2 = toRadians(b.lat);
+  const Δφ = toRadians(b.lat - a.lat);
+  const Δλ = toRadians(b.lng - a.lng);
+
+  const h = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Initial bearing from a to b in degrees, -180..180 (0 = north)
+export function calculateBearing(a: Coordinate, b: Coordinate): number {
+  const φ1 = toRadians(a.lat);
+  const φ2 = toRadians(b.lat);
+  const Δλ = toRadians(b.lng - a.lng);
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return toDegrees(Math.atan2(y, x));
+}
+
+// Signed difference between two bearings, normalised to -180..180 (positive = right)
+export function bearingDelta(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
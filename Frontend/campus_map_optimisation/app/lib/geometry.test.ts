@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBearing, haversineDistance } from './geo';
+import {
+  closestPointOnPolyline,
+  cumulativeDistances,
+  offsetCoordinate,
+  pointAtDistance,
+  projectOntoSegment,
+  remainingDistance,
+} from './geometry';
+
+const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+const SARC = { lat: 28.5237344, lng: 77.5742457 };
+const CONVOCATION_ARENA = { lat: 28.5212659, lng: 77.5709869 };
+const TOWER_6 = { lat: 28.530136, lng: 77.5779005 };
+
+describe('haversineDistance', () => {
+  it('measures known campus distances', () => {
+    expect(haversineDistance(LIBRARY, SARC)).toBeCloseTo(156.19, 1);
+    expect(haversineDistance(CONVOCATION_ARENA, TOWER_6)).toBeCloseTo(1195.41, 1);
+  });
+
+  it('is zero for the same point and symmetric', () => {
+    expect(haversineDistance(LIBRARY, LIBRARY)).toBe(0);
+    expect(haversineDistance(SARC, LIBRARY)).toBeCloseTo(haversineDistance(LIBRARY, SARC), 9);
+  });
+});
+
+describe('offsetCoordinate', () => {
+  it('moves a point by true meters', () => {
+    expect(haversineDistance(LIBRARY, offsetCoordinate(LIBRARY, 30, 0))).toBeCloseTo(30, 1);
+    expect(haversineDistance(LIBRARY, offsetCoordinate(LIBRARY, 0, 30))).toBeCloseTo(30, 1);
+  });
+});
+
+describe('projectOntoSegment', () => {
+  // 20 m to the side of the middle of the Library–SARC segment
+  const bearing = (calculateBearing(LIBRARY, SARC) * Math.PI) / 180;
+  const middle = pointAtDistance([LIBRARY, SARC], haversineDistance(LIBRARY, SARC) / 2);
+  const beside = offsetCoordinate(middle, 20 * Math.sin(bearing), -20 * Math.cos(bearing));
+
+  it('finds the perpendicular foot', () => {
+    const projection = projectOntoSegment(beside, LIBRARY, SARC);
+    expect(projection.distance).toBeCloseTo(20, 0);
+    expect(projection.fraction).toBeCloseTo(0.5, 2);
+    expect(haversineDistance(projection.point, middle)).toBeLessThan(0.5);
+  });
+
+  it('clamps to the nearer end', () => {
+    const projection = projectOntoSegment(CONVOCATION_ARENA, LIBRARY, SARC);
+    expect(projection.fraction).toBe(1);
+    expect(projection.distance).toBeCloseTo(haversineDistance(CONVOCATION_ARENA, SARC), 1);
+  });
+
+  it('handles a zero-length segment', () => {
+    const projection = projectOntoSegment(SARC, LIBRARY, LIBRARY);
+    expect(projection.fraction).toBe(0);
+    expect(projection.distance).toBeCloseTo(haversineDistance(SARC, LIBRARY), 1);
+  });
+});
+
+describe('closestPointOnPolyline', () => {
+  const path = [LIBRARY, SARC, CONVOCATION_ARENA];
+  const distances = cumulativeDistances(path);
+
+  it('reports the segment and distance along the path', () => {
+    const fix = offsetCoordinate(pointAtDistance(path, 250, distances), 5, 5);
+    const projection = closestPointOnPolyline(fix, path, distances)!;
+    expect(projection.segmentIndex).toBe(1);
+    expect(projection.alongTrack).toBeGreaterThan(240);
+    expect(projection.alongTrack).toBeLessThan(260);
+    expect(remainingDistance(fix, path, distances)).toBeCloseTo(distances[2] - projection.alongTrack, 6);
+  });
+});
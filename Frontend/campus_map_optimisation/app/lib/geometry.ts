@@ -0,0 +1,127 @@
+import { Coordinate } from '../types/route';
+import { EARTH_RADIUS, calculateBearing, haversineDistance } from './geo';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+interface PlanePoint {
+  x: number; // meters east of the origin
+  y: number; // meters north of the origin
+}
+
+// Equirectangular projection around the origin. A degree of longitude is
+// scaled by cos(latitude), so distances stay true over the few hundred
+// meters of a route segment.
+function project(point: Coordinate, origin: Coordinate): PlanePoint {
+  return {
+    x: toRadians(point.lng - origin.lng) * Math.cos(toRadians(origin.lat)) * EARTH_RADIUS,
+    y: toRadians(point.lat - origin.lat) * EARTH_RADIUS,
+  };
+}
+
+function unproject({ x, y }: PlanePoint, origin: Coordinate): Coordinate {
+  return {
+    lat: origin.lat + toDegrees(y / EARTH_RADIUS),
+    lng: origin.lng + toDegrees(x / (EARTH_RADIUS * Math.cos(toRadians(origin.lat)))),
+  };
+}
+
+// Point moved the given number of meters north and east
+export function offsetCoordinate(point: Coordinate, north: number, east: number): Coordinate {
+  return unproject({ x: east, y: north }, point);
+}
+
+export interface SegmentProjection {
+  point: Coordinate; // closest point on the segment
+  distance: number; // meters from the input point
+  fraction: number; // 0 at the segment start, 1 at its end
+}
+
+export function projectOntoSegment(point: Coordinate, a: Coordinate, b: Coordinate): SegmentProjection {
+  const p = project(point, a);
+  const end = project(b, a);
+  const lengthSquared = end.x * end.x + end.y * end.y;
+
+  const fraction = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+  const closest = unproject({ x: end.x * fraction, y: end.y * fraction }, a);
+
+  return { point: closest, distance: haversineDistance(point, closest), fraction };
+}
+
+export function pointToSegmentDistance(point: Coordinate, a: Coordinate, b: Coordinate): number {
+  return projectOntoSegment(point, a, b).distance;
+}
+
+// Distance from the start of the path to each vertex, in meters
+export function cumulativeDistances(path: Coordinate[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(path[i - 1], path[i]));
+  }
+  return distances;
+}
+
+export interface PolylineProjection extends SegmentProjection {
+  segmentIndex: number; // index of the segment's first vertex
+  alongTrack: number; // meters from the path start to the closest point
+}
+
+// Closest point on a path; pass precomputed cumulative distances when projecting repeatedly
+export function closestPointOnPolyline(
+  point: Coordinate,
+  path: Coordinate[],
+  distances: number[] = cumulativeDistances(path)
+): PolylineProjection | null {
+  if (path.length === 0) return null;
+  if (path.length === 1) {
+    return { point: path[0], distance: haversineDistance(point, path[0]), fraction: 0, segmentIndex: 0, alongTrack: 0 };
+  }
+
+  let best: PolylineProjection | null = null;
+  for (let i = 0; i < path.length - 1; i++) {
+    const projection = projectOntoSegment(point, path[i], path[i + 1]);
+    if (!best || projection.distance < best.distance) {
+      const segmentLength = distances[i + 1] - distances[i];
+      best = { ...projection, segmentIndex: i, alongTrack: distances[i] + projection.fraction * segmentLength };
+    }
+  }
+  return best;
+}
+
+export function alongTrackDistance(point: Coordinate, path: Coordinate[], distances = cumulativeDistances(path)): number {
+  return closestPointOnPolyline(point, path, distances)?.alongTrack ?? 0;
+}
+
+export function remainingDistance(point: Coordinate, path: Coordinate[], distances = cumulativeDistances(path)): number {
+  const total = distances[distances.length - 1] ?? 0;
+  return Math.max(0, total - alongTrackDistance(point, path, distances));
+}
+
+// Point reached after walking the given distance along the path
+export function pointAtDistance(path: Coordinate[], distance: number, distances = cumulativeDistances(path)): Coordinate {
+  if (path.length === 0) throw new Error('Cannot walk along an empty path');
+  if (distance <= 0) return path[0];
+
+  for (let i = 1; i < path.length; i++) {
+    if (distances[i] >= distance) {
+      const segmentLength = distances[i] - distances[i - 1];
+      const fraction = segmentLength === 0 ? 0 : (distance - distances[i - 1]) / segmentLength;
+      const end = project(path[i], path[i - 1]);
+      return unproject({ x: end.x * fraction, y: end.y * fraction }, path[i - 1]);
+    }
+  }
+  return path[path.length - 1];
+}
+
+// Bearing in 0..360 (0 = north), for map rotation and compass headings
+export function normalizeBearing(bearing: number): number {
+  return ((bearing % 360) + 360) % 360;
+}
+
+// Direction of travel along the segment that starts at the given vertex
+export function segmentBearing(path: Coordinate[], segmentIndex: number): number {
+  const i = Math.max(0, Math.min(segmentIndex, path.length - 2));
+  return normalizeBearing(calculateBearing(path[i], path[i + 1]));
+}
@@ -0,0 +1,130 @@
+import { Instruction, ManeuverType } from '../types/route';
+
+export interface GuidanceOptions {
+  leadDistances: number[]; // meters before a maneuver at which it is announced
+  immediateDistance: number; // meters; closer than this the maneuver is announced as happening now
+  lang: string; // speech synthesis language
+}
+
+export const DEFAULT_GUIDANCE: GuidanceOptions = {
+  leadDistances: [150, 40],
+  immediateDistance: 12,
+  lang: 'en-GB',
+};
+
+export interface GuidancePrompt {
+  text: string;
+  maneuver: ManeuverType;
+  immediate: boolean; // the maneuver is now, not ahead
+}
+
+// Wording after "In 40 metres, ..." where the instruction text does not read well
+const LEAD_PHRASES: Partial<Record<ManeuverType, string>> = {
+  waypoint: 'you will reach your stop',
+  arrive: 'you will arrive at your destination',
+};
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+// Spoken distances are rounded so prompts sound natural
+const roundForSpeech = (meters: number) => (meters >= 100 ? Math.round(meters / 50) * 50 : Math.max(10, Math.round(meters / 10) * 10));
+
+export function formatPrompt(instruction: Instruction, distance: number, immediate: boolean): string {
+  if (immediate) {
+    return instruction.instruction;
+  }
+  const phrase = LEAD_PHRASES[instruction.maneuver_type] ?? lowerFirst(instruction.instruction);
+  return `In ${roundForSpeech(distance)} metres, ${phrase}`;
+}
+
+// Announces each maneuver at most once per stage, however many fixes arrive in between
+export function createPromptScheduler(options: GuidanceOptions = DEFAULT_GUIDANCE) {
+  const stages = [options.immediateDistance, ...options.leadDistances].sort((a, b) => a - b);
+  // Closest stage already announced for each maneuver, keyed by path index
+  const announced = new Map<number, number>();
+
+  return {
+    // Prompt due at this distance from the next maneuver, or null
+    next(instruction: Instruction, distance: number): GuidancePrompt | null {
+      const stage = stages.find(limit => distance <= limit);
+      if (stage === undefined) return null;
+
+      const previous = announced.get(instruction.path_index);
+      if (previous !== undefined && previous <= stage) return null;
+      announced.set(instruction.path_index, stage);
+
+      const immediate = stage === options.immediateDistance;
+      return {
+        text: formatPrompt(instruction, distance, immediate),
+        maneuver: instruction.maneuver_type,
+        immediate,
+      };
+    },
+
+    // Path indices change with every route, so forget what was announced
+    reset() {
+      announced.clear();
+    },
+  };
+}
+
+export type PromptScheduler = ReturnType<typeof createPromptScheduler>;
+
+// Left turns buzz twice and right turns once, so they can be told apart in a pocket
+export const VIBRATION_PATTERNS: Partial<Record<ManeuverType, number[]>> = {
+  slight_left: [100, 100, 100],
+  left: [100, 100, 100],
+  sharp_left: [100, 100, 100],
+  slight_right: [300],
+  right: [300],
+  sharp_right: [300],
+  uturn: [100, 100, 100, 100, 100],
+  waypoint: [200, 100, 200],
+  arrive: [200, 100, 200, 100, 400],
+};
+
+export function speak(text: string, lang: string = DEFAULT_GUIDANCE.lang) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+
+  // A newer prompt replaces one that has not finished yet
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  window.speechSynthesis.speak(utterance);
+}
+
+export function vibrate(maneuver: ManeuverType) {
+  const pattern = VIBRATION_PATTERNS[maneuver];
+  if (pattern && typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(pattern);
+  }
+}
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture; call this from one, e.g. the Start button
+export function unlockAudio() {
+  if (typeof window === 'undefined' || !window.AudioContext) return;
+  audioContext ??= new AudioContext();
+  void audioContext.resume();
+}
+
+// Short two-tone chime; rising for arrival, falling for a turn
+export function playChime(kind: 'turn' | 'arrive') {
+  const context = audioContext;
+  if (!context || context.state !== 'running') return;
+
+  const tones = kind === 'arrive' ? [660, 880] : [880, 660];
+  tones.forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.15;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.3);
+  });
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance } from './geo';
+import { closestPointOnPolyline, offsetCoordinate, pointAtDistance } from './geometry';
+import { createLocationFilter, DEFAULT_LOCATION_FILTER, LocationFix, snapToPath } from './locationFilter';
+
+const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+const SARC = { lat: 28.5237344, lng: 77.5742457 };
+const CONVOCATION_ARENA = { lat: 28.5212659, lng: 77.5709869 };
+
+const fixAt = (point: { lat: number; lng: number }, timestamp: number, accuracy = 10): LocationFix =>
+  ({ latitude: point.lat, longitude: point.lng, accuracy, timestamp });
+const position = (fix: LocationFix) => ({ lat: fix.latitude, lng: fix.longitude });
+
+describe('createLocationFilter', () => {
+  it('takes the first fix as it is', () => {
+    const fix = fixAt(LIBRARY, 0);
+    expect(createLocationFilter().process(fix)).toBe(fix);
+  });
+
+  it('drops a fix less accurate than maxAccuracy once a good one is known', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    expect(filter.process(fixAt(LIBRARY, 1000, DEFAULT_LOCATION_FILTER.maxAccuracy + 1))).toBeNull();
+  });
+
+  it('drops a jump faster than maxSpeed', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    // Over a kilometre in two seconds
+    expect(filter.process(fixAt(CONVOCATION_ARENA, 2000))).toBeNull();
+  });
+
+  it('accepts an outlier after MAX_CONSECUTIVE_REJECTIONS in a row', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    const results = [1000, 2000, 3000, 4000].map(time => filter.process(fixAt(CONVOCATION_ARENA, time)));
+    expect(results.slice(0, 3)).toEqual([null, null, null]);
+    expect(results[3]).not.toBeNull();
+  });
+
+  it('accepts any fix once the last estimate is stale', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    expect(filter.process(fixAt(CONVOCATION_ARENA, 60000))).not.toBeNull();
+  });
+
+  it('moves the estimate part of the way towards a new fix', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    const moved = offsetCoordinate(LIBRARY, 8, 0);
+    const estimate = filter.process(fixAt(moved, 1000))!;
+
+    const travelled = haversineDistance(LIBRARY, position(estimate));
+    expect(travelled).toBeGreaterThan(0);
+    expect(travelled).toBeLessThan(8);
+    expect(estimate.accuracy).toBeLessThan(10);
+    expect(estimate.measurementAccuracy).toBe(10);
+  });
+
+  it('settles on a steady uncertainty below the reported accuracy', () => {
+    const filter = createLocationFilter();
+    let estimate: LocationFix | null = null;
+    for (let time = 0; time <= 60000; time += 1000) {
+      estimate = filter.process(fixAt(LIBRARY, time, 20));
+    }
+    // Walking at up to processNoise m/s between fixes 20 m apart in accuracy
+    expect(estimate!.accuracy).toBeGreaterThan(5);
+    expect(estimate!.accuracy).toBeLessThan(10);
+    expect(estimate!.measurementAccuracy).toBe(20);
+  });
+
+  it('passes fixes through without smoothing', () => {
+    const filter = createLocationFilter({ ...DEFAULT_LOCATION_FILTER, smoothing: 'none' });
+    filter.process(fixAt(LIBRARY, 0));
+    const fix = fixAt(offsetCoordinate(LIBRARY, 8, 0), 1000);
+    expect(filter.process(fix)).toBe(fix);
+  });
+
+  it('forgets the estimate on reset', () => {
+    const filter = createLocationFilter();
+    filter.process(fixAt(LIBRARY, 0));
+    filter.reset();
+    const fix = fixAt(CONVOCATION_ARENA, 1000);
+    expect(filter.process(fix)).toBe(fix);
+  });
+});
+
+describe('snapToPath', () => {
+  const path = [LIBRARY, SARC];
+
+  it('moves a nearby fix onto the path', () => {
+    const snapped = snapToPath(fixAt(offsetCoordinate(pointAtDistance(path, 80), 0, 10), 0, 5), path, 20);
+    expect(snapped.snapped).toBe(true);
+    expect(closestPointOnPolyline(position(snapped), path)!.distance).toBeLessThan(0.5);
+  });
+
+  it('leaves a distant fix alone', () => {
+    const fix = fixAt(CONVOCATION_ARENA, 0, 5);
+    expect(snapToPath(fix, path, 20)).toBe(fix);
+  });
+});
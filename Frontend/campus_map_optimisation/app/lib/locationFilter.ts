@@ -0,0 +1,109 @@
+import { Coordinate } from '../types/route';
+import { haversineDistance } from './geo';
+import { closestPointOnPolyline, cumulativeDistances } from './geometry';
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // meters; after smoothing, the uncertainty of the estimate
+  measurementAccuracy?: number; // meters; accuracy the source reported for a smoothed fix
+  heading?: number;
+  speed?: number; // meters per second
+  timestamp: number;
+  snapped?: boolean; // true when moved onto the route or walking graph
+}
+
+export interface LocationFilterOptions {
+  maxAccuracy: number; // meters; worse fixes are dropped once a good one is known
+  maxSpeed: number; // meters per second implied between fixes
+  smoothing: 'kalman' | 'none';
+  processNoise: number; // meters per second; how quickly the walker may change course
+  snapDistance: number; // meters; farther fixes are left where they are
+}
+
+export const DEFAULT_LOCATION_FILTER: LocationFilterOptions = {
+  maxAccuracy: 50,
+  maxSpeed: 8, // a fast run
+  smoothing: 'kalman',
+  processNoise: 3,
+  snapDistance: 20,
+};
+
+// Outliers are accepted after this many in a row, in case the walker really did jump
+const MAX_CONSECUTIVE_REJECTIONS = 3;
+
+// Fixes older than this no longer vouch for the position, so a poor fix is better than none
+const STALE_FIX_AGE = 30000; // milliseconds
+
+const toCoordinate = (fix: LocationFix): Coordinate => ({ lat: fix.latitude, lng: fix.longitude });
+
+// Drops outliers and smooths the remaining fixes with a Kalman filter that
+// treats accuracy as the measurement error and walking as a random walk
+export function createLocationFilter(options: LocationFilterOptions = DEFAULT_LOCATION_FILTER) {
+  let estimate: LocationFix | null = null;
+  let variance = 0; // squared meters
+  let rejections = 0;
+
+  const isOutlier = (fix: LocationFix) => {
+    if (!estimate || fix.timestamp - estimate.timestamp > STALE_FIX_AGE) return false;
+    if (fix.accuracy > options.maxAccuracy) return true;
+
+    const seconds = Math.max(1, (fix.timestamp - estimate.timestamp) / 1000);
+    const jump = Math.max(0, haversineDistance(toCoordinate(estimate), toCoordinate(fix)) - fix.accuracy);
+    return jump / seconds > options.maxSpeed;
+  };
+
+  return {
+    // Smoothed position, or null when the fix is rejected
+    process(fix: LocationFix): LocationFix | null {
+      if (isOutlier(fix) && rejections < MAX_CONSECUTIVE_REJECTIONS) {
+        rejections++;
+        return null;
+      }
+      rejections = 0;
+
+      if (!estimate || options.smoothing === 'none') {
+        estimate = fix;
+        variance = fix.accuracy * fix.accuracy;
+        return estimate;
+      }
+
+      const seconds = Math.max(0, (fix.timestamp - estimate.timestamp) / 1000);
+      variance += seconds * options.processNoise * options.processNoise;
+
+      const gain = variance / (variance + fix.accuracy * fix.accuracy);
+      estimate = {
+        ...fix,
+        latitude: estimate.latitude + gain * (fix.latitude - estimate.latitude),
+        longitude: estimate.longitude + gain * (fix.longitude - estimate.longitude),
+        accuracy: Math.sqrt((1 - gain) * variance),
+        measurementAccuracy: fix.accuracy,
+      };
+      variance = (1 - gain) * variance;
+      return estimate;
+    },
+
+    reset() {
+      estimate = null;
+      variance = 0;
+      rejections = 0;
+    },
+  };
+}
+
+export type LocationFilter = ReturnType<typeof createLocationFilter>;
+
+// Move a fix onto the path when it is close enough to plausibly be on it
+export function snapToPath(
+  fix: LocationFix,
+  path: Coordinate[],
+  snapDistance: number,
+  distances: number[] = cumulativeDistances(path)
+): LocationFix {
+  const projection = closestPointOnPolyline(toCoordinate(fix), path, distances);
+  if (!projection || projection.distance > snapDistance) {
+    return fix;
+  }
+
+  return { ...fix, latitude: projection.point.lat, longitude: projection.point.lng, snapped: true };
+}
@@ -0,0 +1,296 @@
+import { Coordinate } from '../types/route';
+import { calculateBearing, haversineDistance } from './geo';
+import { cumulativeDistances, normalizeBearing, offsetCoordinate, pointAtDistance, segmentBearing } from './geometry';
+import type { LocationFix } from './locationFilter';
+
+export type LocationErrorCode = 'unsupported' | 'permission_denied' | 'unavailable' | 'timeout';
+
+export type LocationSourceId = 'browser' | 'simulator' | 'replay';
+
+// Where LocationContext gets its fixes from
+export interface LocationSource {
+  id: LocationSourceId;
+  label: string;
+  // Whether fixes can be delivered without prompting the user
+  checkPermission: () => Promise<boolean>;
+  // Prompt for access if needed; resolves to an error code, or null when granted
+  requestPermission: () => Promise<LocationErrorCode | null>;
+  // Start delivering fixes; returns a function that stops them
+  watch: (onFix: (fix: LocationFix) => void, onError: (code: LocationErrorCode) => void) => () => void;
+}
+
+const GEOLOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 5000,
+};
+
+function toErrorCode(error: GeolocationPositionError): LocationErrorCode {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'permission_denied';
+    case error.TIMEOUT:
+      return 'timeout';
+    default:
+      return 'unavailable';
+  }
+}
+
+export const browserLocationSource: LocationSource = {
+  id: 'browser',
+  label: 'Device GPS',
+
+  async checkPermission() {
+    if (!navigator.geolocation) return false;
+    try {
+      const permission = await navigator.permissions.query({ name: 'geolocation' });
+      return permission.state === 'granted';
+    } catch {
+      // Browsers without the permissions API; let the user trigger the request
+      return false;
+    }
+  },
+
+  requestPermission() {
+    if (!navigator.geolocation) return Promise.resolve('unsupported');
+
+    return new Promise(resolve => {
+      navigator.geolocation.getCurrentPosition(
+        () => resolve(null),
+        error => resolve(toErrorCode(error)),
+        GEOLOCATION_OPTIONS
+      );
+    });
+  },
+
+  watch(onFix, onError) {
+    if (!navigator.geolocation) {
+      onError('unsupported');
+      return () => {};
+    }
+
+    const id = navigator.geolocation.watchPosition(
+      position => onFix({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        heading: position.coords.heading || undefined,
+        speed: position.coords.speed || undefined,
+        timestamp: position.timestamp,
+      }),
+      error => onError(toErrorCode(error)),
+      GEOLOCATION_OPTIONS
+    );
+
+    return () => navigator.geolocation.clearWatch(id);
+  },
+};
+
+// Standard normal sample (Box-Muller)
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+}
+
+// Simulated sources never need a permission prompt
+const alwaysGranted = {
+  checkPermission: () => Promise.resolve(true),
+  requestPermission: () => Promise.resolve(null),
+};
+
+export interface SimulatorOptions {
+  path: Coordinate[];
+  speed?: number; // meters per second
+  noise?: number; // meters, standard deviation of the GPS error
+  interval?: number; // milliseconds between fixes
+  leaveRouteAt?: number; // meters along the path, after which the walker veers off
+}
+
+// Angle the simulated walker turns away from the route when leaving it
+const VEER_ANGLE = 60; // degrees
+
+// Walks along a path at a steady pace, adding GPS noise to every fix
+export function createSimulatedLocationSource({
+  path,
+  speed = 1.4,
+  noise = 5,
+  interval = 1000,
+  leaveRouteAt,
+}: SimulatorOptions): LocationSource {
+  const distances = cumulativeDistances(path);
+  const totalDistance = distances[distances.length - 1] ?? 0;
+
+  const bearingAt = (distance: number) => {
+    const index = distances.findIndex(d => d > distance);
+    return segmentBearing(path, index === -1 ? path.length - 2 : index - 1);
+  };
+
+  const positionAt = (walked: number): { point: Coordinate; heading: number } => {
+    if (leaveRouteAt === undefined || walked <= leaveRouteAt) {
+      const distance = Math.min(walked, totalDistance);
+      return { point: pointAtDistance(path, distance, distances), heading: bearingAt(distance) };
+    }
+
+    // Past the detour point the walker heads off at an angle to the route
+    const heading = normalizeBearing(bearingAt(leaveRouteAt) + VEER_ANGLE);
+    const offRoute = walked - leaveRouteAt;
+    const radians = (heading * Math.PI) / 180;
+    const origin = pointAtDistance(path, leaveRouteAt, distances);
+    return { point: offsetCoordinate(origin, offRoute * Math.cos(radians), offRoute * Math.sin(radians)), heading };
+  };
+
+  return {
+    id: 'simulator',
+    label: 'Simulated walk',
+    ...alwaysGranted,
+
+    watch(onFix) {
+      if (path.length < 2) return () => {};
+
+      let walked = 0;
+      const emit = () => {
+        const { point, heading } = positionAt(walked);
+        const noisy = offsetCoordinate(point, gaussian() * noise, gaussian() * noise);
+        const arrived = leaveRouteAt === undefined && walked >= totalDistance;
+
+        onFix({
+          latitude: noisy.lat,
+          longitude: noisy.lng,
+          accuracy: Math.max(3, noise * 1.5),
+          heading,
+          speed: arrived ? 0 : speed,
+          timestamp: Date.now(),
+        });
+        walked += (speed * interval) / 1000;
+      };
+
+      emit();
+      const timer = setInterval(emit, interval);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+export interface TrackPoint extends Coordinate {
+  time?: number; // milliseconds since the epoch
+}
+
+const readAttribute = (element: string, name: string) =>
+  element.match(new RegExp(`\\b${name}=['"]([^'"]*)['"]`))?.[1];
+
+function parseGpx(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  for (const [element, body = ''] of text.matchAll(/<(?:trkpt|rtept)\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:trkpt|rtept)>)/g)) {
+    const time = body.match(/<time>([^<]+)<\/time>/)?.[1];
+    points.push({
+      lat: Number(readAttribute(element, 'lat')),
+      lng: Number(readAttribute(element, 'lon')),
+      time: time ? Date.parse(time) : undefined,
+    });
+  }
+  return points;
+}
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+interface GeoJsonFeature {
+  geometry?: GeoJsonGeometry | null;
+  properties?: { coordTimes?: string[]; times?: Array<string | number> } | null;
+}
+
+interface GeoJsonObject extends GeoJsonFeature {
+  type: string;
+  features?: GeoJsonFeature[];
+}
+
+function parseGeoJson(data: GeoJsonObject): TrackPoint[] {
+  const features: GeoJsonFeature[] = data.type === 'FeatureCollection'
+    ? data.features ?? []
+    : data.type === 'Feature'
+    ? [data]
+    : [{ geometry: data as unknown as GeoJsonGeometry }];
+
+  return features.flatMap(({ geometry, properties }) => {
+    if (!geometry) return [];
+    const lines = geometry.type === 'LineString'
+      ? [geometry.coordinates as number[][]]
+      : geometry.type === 'MultiLineString'
+      ? geometry.coordinates as number[][][]
+      : [];
+    // togeojson writes GPX timestamps to coordTimes
+    const times = properties?.coordTimes ?? properties?.times;
+
+    return lines.flat().map(([lng, lat], index) => ({
+      lat,
+      lng,
+      time: times?.[index] !== undefined ? new Date(times[index]).getTime() : undefined,
+    }));
+  });
+}
+
+// Read a GPX or GeoJSON track; throws when no points can be found
+export function parseTrack(text: string): TrackPoint[] {
+  const trimmed = text.trim();
+  const points = trimmed.startsWith('<') ? parseGpx(trimmed) : parseGeoJson(JSON.parse(trimmed));
+  const valid = points.filter(({ lat, lng }) => Number.isFinite(lat) && Number.isFinite(lng));
+
+  if (valid.length < 2) {
+    throw new Error('The file has no track with at least two points');
+  }
+  return valid;
+}
+
+export interface ReplayOptions {
+  speedFactor?: number; // 2 replays twice as fast as recorded
+  interval?: number; // milliseconds between points without timestamps
+}
+
+// Replays a recorded track, keeping its original timing when it has timestamps
+export function createReplayLocationSource(
+  track: TrackPoint[],
+  { speedFactor = 1, interval = 1000 }: ReplayOptions = {}
+): LocationSource {
+  const hasTimes = track.every(point => point.time !== undefined && !Number.isNaN(point.time));
+
+  const delayBefore = (index: number) => {
+    if (index === 0) return 0;
+    const recorded = hasTimes ? track[index].time! - track[index - 1].time! : interval;
+    return Math.max(0, recorded) / speedFactor;
+  };
+
+  return {
+    id: 'replay',
+    label: 'Track replay',
+    ...alwaysGranted,
+
+    watch(onFix) {
+      let index = 0;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const emit = () => {
+        const point = track[index];
+        const previous = track[index - 1];
+        const seconds = previous ? delayBefore(index) * speedFactor / 1000 : 0;
+
+        onFix({
+          latitude: point.lat,
+          longitude: point.lng,
+          accuracy: 5,
+          heading: previous ? normalizeBearing(calculateBearing(previous, point)) : undefined,
+          speed: previous && seconds > 0 ? haversineDistance(previous, point) / seconds : undefined,
+          timestamp: Date.now(),
+        });
+
+        index++;
+        if (index < track.length) {
+          timer = setTimeout(emit, delayBefore(index));
+        }
+      };
+
+      emit();
+      return () => clearTimeout(timer);
+    },
+  };
+}
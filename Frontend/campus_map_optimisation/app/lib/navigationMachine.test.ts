@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { RouteData } from '../types/route';
+import { offsetCoordinate } from './geometry';
+import {
+  initialNavigationState,
+  NavigationEvent,
+  NavigationMachineState,
+  NavigationPhase,
+  navigationReducer,
+} from './navigationMachine';
+import { RouteError } from './routeErrors';
+
+const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+const ROUTE: RouteData = {
+  start: LIBRARY,
+  end: offsetCoordinate(LIBRARY, 200, 0),
+  total_distance: 200,
+  estimated_time_minutes: 2.5,
+  instructions: [],
+  path_coordinates: [LIBRARY, offsetCoordinate(LIBRARY, 200, 0)],
+};
+
+const fix = (north: number, timestamp: number, flags: { offRoute?: boolean; arrived?: boolean } = {}): NavigationEvent => ({
+  type: 'FIX',
+  position: offsetCoordinate(LIBRARY, north, 0),
+  timestamp,
+  offRoute: flags.offRoute ?? false,
+  arrived: flags.arrived ?? false,
+});
+
+const run = (events: NavigationEvent[], state: NavigationMachineState = initialNavigationState) =>
+  events.reduce(navigationReducer, state);
+
+// START, a first fix and a route: the usual way into navigation
+const navigating = () => run([{ type: 'START' }, fix(0, 1000), { type: 'ROUTE_READY', route: ROUTE, timestamp: 2000 }]);
+
+describe('navigationReducer', () => {
+  it('waits for a fix, then a route, before navigating', () => {
+    let state = run([{ type: 'START' }]);
+    expect(state.phase).toBe('acquiring_fix');
+    state = navigationReducer(state, fix(0, 1000));
+    expect(state.phase).toBe('routing');
+    expect(state.lastFixAt).toBe(1000);
+    state = navigationReducer(state, { type: 'ROUTE_READY', route: ROUTE, timestamp: 2000 });
+    expect(state.phase).toBe('navigating');
+    expect(state.route).toBe(ROUTE);
+    expect(state.routedAt).toBe(2000);
+    expect(state.trip).toMatchObject({ startedAt: 2000, plannedDistance: 200, plannedMinutes: 2.5 });
+  });
+
+  it('goes off route and back with the fixes, counting the distance walked', () => {
+    let state = navigationReducer(navigating(), fix(30, 3000, { offRoute: true }));
+    expect(state.phase).toBe('off_route');
+    state = navigationReducer(state, fix(40, 4000));
+    expect(state.phase).toBe('navigating');
+    expect(state.trip.distanceWalked).toBeCloseTo(40, 0);
+  });
+
+  it('reroutes and counts the reroute', () => {
+    let state = run([fix(30, 3000, { offRoute: true }), { type: 'REROUTE' }], navigating());
+    expect(state.phase).toBe('rerouting');
+    expect(state.trip.reroutes).toBe(1);
+
+    const rerouted = { ...ROUTE, total_distance: 180 };
+    state = navigationReducer(state, { type: 'ROUTE_READY', route: rerouted, timestamp: 5000 });
+    expect(state.phase).toBe('navigating');
+    expect(state.route).toBe(rerouted);
+    expect(state.routedAt).toBe(5000);
+    // The plan the trip is measured against stays the first route
+    expect(state.trip.plannedDistance).toBe(200);
+  });
+
+  it('ignores REROUTE unless following a route', () => {
+    expect(run([{ type: 'START' }, { type: 'REROUTE' }]).phase).toBe('acquiring_fix');
+  });
+
+  it('arrives from any phase that follows a route', () => {
+    const offRoute = navigationReducer(navigating(), fix(30, 3000, { offRoute: true }));
+    const rerouting = navigationReducer(offRoute, { type: 'REROUTE' });
+    for (const state of [navigating(), offRoute, rerouting]) {
+      const arrived = navigationReducer(state, fix(200, 9000, { arrived: true }));
+      expect(arrived.phase).toBe('arrived');
+      expect(arrived.trip.endedAt).toBe(9000);
+    }
+  });
+
+  it('keeps the trip once arrived', () => {
+    const arrived = navigationReducer(navigating(), fix(200, 9000, { arrived: true }));
+    expect(navigationReducer(arrived, fix(210, 10000))).toBe(arrived);
+  });
+
+  it('fails when a route request fails, and keeps the trip on retry', () => {
+    const error = new RouteError('OUT_OF_BOUNDS', 'Outside campus', { role: 'end' });
+    const rerouting = run([fix(30, 3000, { offRoute: true }), { type: 'REROUTE' }], navigating());
+    const failed = navigationReducer(rerouting, { type: 'ROUTE_FAILED', error });
+    expect(failed.phase).toBe('failed');
+    expect(failed.error).toBe(error);
+
+    const retried = navigationReducer(failed, { type: 'START', recovery: 'snap_to_gate' });
+    expect(retried.phase).toBe('acquiring_fix');
+    expect(retried.recovery).toBe('snap_to_gate');
+    expect(retried.recoveryRole).toBe('end');
+    expect(retried.trip.reroutes).toBe(1);
+    expect(retried.error).toBeNull();
+  });
+
+  it('clears the recovery action once a route arrives', () => {
+    const error = new RouteError('BACKEND_UNREACHABLE', 'Offline');
+    const failed = run([{ type: 'START' }, fix(0, 1000), { type: 'ROUTE_FAILED', error }]);
+    const state = run([{ type: 'START', recovery: 'use_offline' }, fix(0, 3000), { type: 'ROUTE_READY', route: ROUTE, timestamp: 4000 }], failed);
+    expect(state.phase).toBe('navigating');
+    expect(state.recovery).toBeUndefined();
+    expect(state.recoveryRole).toBeUndefined();
+  });
+
+  it('ignores a failure outside a route request', () => {
+    const state = navigating();
+    expect(navigationReducer(state, { type: 'ROUTE_FAILED', error: new RouteError('TIMEOUT', 'Slow') })).toBe(state);
+  });
+
+  it('ignores START while a trip is under way', () => {
+    const state = navigating();
+    expect(navigationReducer(state, { type: 'START' })).toBe(state);
+  });
+
+  it('stops from every phase', () => {
+    const error = new RouteError('NO_PATH', 'No path');
+    const states: Partial<Record<NavigationPhase, NavigationMachineState>> = {
+      idle: initialNavigationState,
+      acquiring_fix: run([{ type: 'START' }]),
+      routing: run([{ type: 'START' }, fix(0, 1000)]),
+      navigating: navigating(),
+      off_route: navigationReducer(navigating(), fix(30, 3000, { offRoute: true })),
+      rerouting: navigationReducer(navigating(), { type: 'REROUTE' }),
+      arrived: navigationReducer(navigating(), fix(200, 9000, { arrived: true })),
+      failed: run([{ type: 'START' }, fix(0, 1000), { type: 'ROUTE_FAILED', error }]),
+    };
+
+    for (const [phase, state] of Object.entries(states)) {
+      expect(state!.phase).toBe(phase);
+      expect(navigationReducer(state!, { type: 'STOP' })).toBe(initialNavigationState);
+    }
+  });
+});
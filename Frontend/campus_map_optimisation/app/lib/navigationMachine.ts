@@ -0,0 +1,146 @@
+import { Coordinate, RouteData } from '../types/route';
+import { haversineDistance } from './geo';
+import { RouteError, RouteRecoveryAction } from './routeErrors';
+
+// idle ─START→ acquiring_fix ─FIX→ routing ─ROUTE_READY→ navigating
+// navigating ─FIX(off route)→ off_route ─FIX(back on route)→ navigating
+// navigating | off_route ─REROUTE→ rerouting ─ROUTE_READY→ navigating
+// routing | rerouting ─ROUTE_FAILED→ failed ─START→ acquiring_fix
+// navigating | off_route | rerouting ─FIX(arrived)→ arrived
+// any ─STOP→ idle
+export type NavigationPhase =
+  | 'idle'
+  | 'acquiring_fix'
+  | 'routing'
+  | 'navigating'
+  | 'off_route'
+  | 'rerouting'
+  | 'arrived'
+  | 'failed';
+
+export type NavigationEvent =
+  | { type: 'START'; recovery?: RouteRecoveryAction }
+  | { type: 'FIX'; position: Coordinate; timestamp: number; offRoute: boolean; arrived: boolean }
+  | { type: 'ROUTE_READY'; route: RouteData; timestamp: number }
+  | { type: 'ROUTE_FAILED'; error: RouteError }
+  | { type: 'REROUTE' }
+  | { type: 'STOP' };
+
+export interface TripSummary {
+  startedAt: number | null;
+  endedAt: number | null;
+  distanceWalked: number; // meters between accepted fixes
+  reroutes: number;
+  plannedDistance: number; // meters, from the first route
+  plannedMinutes: number;
+}
+
+export interface NavigationMachineState {
+  phase: NavigationPhase;
+  route: RouteData | null;
+  error: RouteError | null;
+  // Recovery action to apply when the pending route request is made
+  recovery?: RouteRecoveryAction;
+  // Which end of the route the failed request blamed, for snap_to_gate
+  recoveryRole?: 'start' | 'end';
+  trip: TripSummary;
+  lastPosition: Coordinate | null;
+  lastFixAt: number | null; // timestamp of the last accepted fix
+  routedAt: number | null; // when the current route was received
+}
+
+const emptyTrip: TripSummary = {
+  startedAt: null,
+  endedAt: null,
+  distanceWalked: 0,
+  reroutes: 0,
+  plannedDistance: 0,
+  plannedMinutes: 0,
+};
+
+export const initialNavigationState: NavigationMachineState = {
+  phase: 'idle',
+  route: null,
+  error: null,
+  trip: emptyTrip,
+  lastPosition: null,
+  lastFixAt: null,
+  routedAt: null,
+};
+
+// Phases in which the user is following a route
+export const ACTIVE_PHASES: NavigationPhase[] = ['navigating', 'off_route', 'rerouting'];
+
+export function navigationReducer(state: NavigationMachineState, event: NavigationEvent): NavigationMachineState {
+  switch (event.type) {
+    case 'START':
+      if (state.phase !== 'idle' && state.phase !== 'failed' && state.phase !== 'arrived') return state;
+      // Retrying after a failed reroute continues the same trip
+      return {
+        ...initialNavigationState,
+        phase: 'acquiring_fix',
+        recovery: event.recovery,
+        recoveryRole: state.error?.details.role,
+        trip: state.phase === 'failed' ? state.trip : emptyTrip,
+      };
+
+    case 'FIX': {
+      if (state.phase === 'acquiring_fix') {
+        return { ...state, phase: 'routing', lastPosition: event.position, lastFixAt: event.timestamp };
+      }
+      if (!ACTIVE_PHASES.includes(state.phase)) return state;
+
+      const walked = state.lastPosition ? haversineDistance(state.lastPosition, event.position) : 0;
+      const trip = { ...state.trip, distanceWalked: state.trip.distanceWalked + walked };
+
+      if (event.arrived) {
+        return {
+          ...state,
+          phase: 'arrived',
+          trip: { ...trip, endedAt: event.timestamp },
+          lastPosition: event.position,
+          lastFixAt: event.timestamp,
+        };
+      }
+
+      let phase = state.phase;
+      if (phase === 'navigating' && event.offRoute) phase = 'off_route';
+      if (phase === 'off_route' && !event.offRoute) phase = 'navigating';
+      return { ...state, phase, trip, lastPosition: event.position, lastFixAt: event.timestamp };
+    }
+
+    case 'ROUTE_READY':
+      if (state.phase === 'routing') {
+        return {
+          ...state,
+          phase: 'navigating',
+          route: event.route,
+          routedAt: event.timestamp,
+          error: null,
+          recovery: undefined,
+          recoveryRole: undefined,
+          trip: state.trip.startedAt !== null ? state.trip : {
+            ...state.trip,
+            startedAt: event.timestamp,
+            plannedDistance: event.route.total_distance,
+            plannedMinutes: event.route.estimated_time_minutes,
+          },
+        };
+      }
+      if (state.phase === 'rerouting') {
+        return { ...state, phase: 'navigating', route: event.route, routedAt: event.timestamp, error: null };
+      }
+      return state;
+
+    case 'ROUTE_FAILED':
+      if (state.phase !== 'routing' && state.phase !== 'rerouting') return state;
+      return { ...state, phase: 'failed', error: event.error };
+
+    case 'REROUTE':
+      if (state.phase !== 'navigating' && state.phase !== 'off_route') return state;
+      return { ...state, phase: 'rerouting', trip: { ...state.trip, reroutes: state.trip.reroutes + 1 } };
+
+    case 'STOP':
+      return initialNavigationState;
+  }
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RouteData } from '../types/route';
+import type { TripSummary } from './navigationMachine';
+import {
+  applyPace,
+  calibratePace,
+  createPaceSample,
+  getCalibratedSpeed,
+  loadPaceCalibration,
+  loadPaceHistory,
+  PaceSample,
+  recordPaceSample,
+} from './pace';
+
+// Trips at the brisk walk profile that took the given share of the predicted time
+const samples = (ratios: number[]): PaceSample[] => ratios.map((ratio, index) => ({
+  pace: 'brisk_walk',
+  distance: 800,
+  expectedMinutes: 10,
+  actualMinutes: 10 * ratio,
+  endedAt: index * 3600000,
+}));
+
+describe('calibratePace', () => {
+  it('keeps the profile pace without history', () => {
+    expect(calibratePace([], 'brisk_walk')).toMatchObject({ factor: 1, confidence: 'none', trips: 0 });
+  });
+
+  it('moves the calibrated speed towards the observed pace as trips add up', () => {
+    const profile = getCalibratedSpeed(calibratePace([], 'brisk_walk'));
+    const observed = profile / 1.25;
+    const afterOne = getCalibratedSpeed(calibratePace(samples([1.25]), 'brisk_walk'));
+    const afterMany = getCalibratedSpeed(calibratePace(samples(Array(20).fill(1.25)), 'brisk_walk'));
+
+    // One trip is shrunk towards the profile; many trips come close to the user's pace
+    expect(afterOne).toBeLessThan(profile);
+    expect(afterOne).toBeGreaterThan(afterMany);
+    expect(afterMany).toBeGreaterThan(observed);
+    expect(afterMany - observed).toBeLessThan(2);
+  });
+
+  it('averages ratios in log space, so slower and faster trips cancel out', () => {
+    expect(calibratePace(samples([2, 0.5]), 'brisk_walk').factor).toBeCloseTo(1, 9);
+  });
+
+  it('grows more confident with more consistent trips', () => {
+    expect(calibratePace(samples([1.1]), 'brisk_walk').confidence).toBe('low');
+    expect(calibratePace(samples([1.1, 1.1, 1.1]), 'brisk_walk').confidence).toBe('medium');
+    expect(calibratePace(samples(Array(12).fill(1.1)), 'brisk_walk').confidence).toBe('high');
+    // As many trips that disagree stay at medium
+    expect(calibratePace(samples(Array(6).fill([0.7, 1.5]).flat()), 'brisk_walk').confidence).toBe('medium');
+  });
+
+  it('only counts trips at the requested pace', () => {
+    expect(calibratePace(samples([1.25]), 'run').trips).toBe(0);
+  });
+});
+
+describe('createPaceSample', () => {
+  const trip = (minutes: number, plannedDistance = 800): TripSummary => ({
+    startedAt: 0,
+    endedAt: minutes * 60000,
+    distanceWalked: plannedDistance,
+    reroutes: 0,
+    plannedDistance,
+    plannedMinutes: 10,
+  });
+  const calibration = calibratePace([], 'brisk_walk');
+
+  it('records the time taken against the time predicted', () => {
+    expect(createPaceSample(trip(12), calibration)).toMatchObject({ distance: 800, expectedMinutes: 10, actualMinutes: 12 });
+  });
+
+  it('ignores short trips and ones far off any walking pace', () => {
+    expect(createPaceSample(trip(12, 50), calibration)).toBeNull();
+    expect(createPaceSample(trip(40), calibration)).toBeNull();
+    expect(createPaceSample(trip(2), calibration)).toBeNull();
+  });
+});
+
+describe('pace history in localStorage', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+      },
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('calibrates from recorded trips', () => {
+    samples([1.25, 1.25, 1.25]).forEach(recordPaceSample);
+    expect(loadPaceHistory()).toHaveLength(3);
+    expect(loadPaceCalibration('brisk_walk')).toMatchObject({ trips: 3, confidence: 'medium' });
+    expect(loadPaceCalibration('brisk_walk').factor).toBeGreaterThan(1);
+  });
+
+  it('keeps only the latest trips per pace', () => {
+    samples(Array(35).fill(1)).forEach(recordPaceSample);
+    const history = loadPaceHistory();
+    expect(history).toHaveLength(30);
+    expect(history[0].endedAt).toBe(5 * 3600000);
+  });
+});
+
+describe('applyPace', () => {
+  // Ten minutes' walk to a stop, a fixed five-minute ride, five minutes' walk on
+  const route: RouteData = {
+    start: { lat: 0, lng: 0 },
+    end: { lat: 0, lng: 0 },
+    total_distance: 1200,
+    estimated_time_minutes: 20,
+    instructions: [],
+    path_coordinates: Array(4).fill({ lat: 0, lng: 0 }),
+    segments: [
+      { mode: 'walk', start: { lat: 0, lng: 0 }, end: { lat: 0, lng: 0 }, distance: 800, estimated_time_minutes: 10, path_start_index: 0, path_end_index: 1 },
+      { mode: 'shuttle', start: { lat: 0, lng: 0 }, end: { lat: 0, lng: 0 }, distance: 0, estimated_time_minutes: 5, path_start_index: 1, path_end_index: 2 },
+      { mode: 'walk', start: { lat: 0, lng: 0 }, end: { lat: 0, lng: 0 }, distance: 400, estimated_time_minutes: 5, path_start_index: 2, path_end_index: 3 },
+    ],
+  };
+
+  it('widens the range over the walking time only', () => {
+    const paced = applyPace(route, calibratePace([], 'brisk_walk'));
+    expect(paced.estimated_time_minutes).toBe(20);
+    expect(paced.eta!.low_minutes).toBeCloseTo(5 + 15 * Math.exp(-0.25), 1);
+    expect(paced.eta!.high_minutes).toBeCloseTo(5 + 15 * Math.exp(0.25), 1);
+  });
+});
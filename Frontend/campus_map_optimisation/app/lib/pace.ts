@@ -0,0 +1,193 @@
+import { EtaConfidence, EtaEstimate, PaceProfile, RouteData, RouteLeg, TravelMode } from '../types/route';
+import type { TripSummary } from './navigationMachine';
+import { CYCLING_SPEED } from './routing';
+
+export interface PaceOption {
+  id: PaceProfile;
+  label: string;
+  description: string;
+  speed: number; // meters per minute
+  mode: TravelMode; // how routes are planned at this pace
+}
+
+export const PACE_PROFILES: PaceOption[] = [
+  { id: 'slow_walk', label: 'Slow walk', description: 'An unhurried stroll', speed: 60, mode: 'walk' },
+  { id: 'brisk_walk', label: 'Brisk walk', description: 'Walking with purpose', speed: 80, mode: 'walk' },
+  { id: 'run', label: 'Run', description: 'Jogging pace', speed: 150, mode: 'walk' },
+  { id: 'wheelchair', label: 'Wheelchair', description: 'Self-propelled wheelchair', speed: 55, mode: 'walk' },
+  { id: 'cycle', label: 'Cycle', description: 'Ride a dock bike, walking to and from the docks', speed: CYCLING_SPEED, mode: 'cycle' },
+];
+
+export const DEFAULT_PACE: PaceProfile = 'brisk_walk';
+
+// Pace behind every estimated_time_minutes from the backend and the offline router
+const ROUTE_SPEED = 80; // meters per minute
+
+const PACE_HISTORY_KEY = 'campus-nav:pace-history';
+const MAX_HISTORY = 30; // trips kept per pace; older ones say little about the user today
+const PRIOR_TRIPS = 2; // the profile speed counts as this many trips, so one odd trip cannot swing the ETA
+const DEFAULT_SPREAD = 0.25; // log-ratio spread assumed before there is any history
+
+// Trips outside these bounds are not a pace, e.g. a stop for coffee or a lift part of the way
+const MIN_TRIP_DISTANCE = 100; // meters
+const MIN_TRIP_RATIO = 1 / 3;
+const MAX_TRIP_RATIO = 3;
+
+export function getPaceOption(pace: PaceProfile): PaceOption {
+  return PACE_PROFILES.find(option => option.id === pace) ?? PACE_PROFILES[1];
+}
+
+export function getTravelMode(pace: PaceProfile): TravelMode {
+  return getPaceOption(pace).mode;
+}
+
+// One completed trip: how long it took against what the pace profile predicted
+export interface PaceSample {
+  pace: PaceProfile;
+  distance: number; // meters
+  expectedMinutes: number; // planned at the profile's pace, before calibration
+  actualMinutes: number;
+  endedAt: number; // epoch milliseconds
+}
+
+export interface PaceCalibration {
+  pace: PaceProfile;
+  factor: number; // the user's time / the profile's time
+  spread: number; // typical trip-to-trip deviation of that ratio, in log units
+  confidence: EtaConfidence;
+  trips: number;
+}
+
+export function loadPaceHistory(): PaceSample[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(PACE_HISTORY_KEY);
+    return stored ? (JSON.parse(stored) as PaceSample[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePaceHistory(history: PaceSample[]) {
+  try {
+    window.localStorage.setItem(PACE_HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    // Private browsing or a full quota; the ETA simply stays uncalibrated
+    console.warn('Could not save pace history:', error);
+  }
+}
+
+// Sample for a finished trip planned with this calibration, or null when it does not reflect a steady pace
+export function createPaceSample(trip: TripSummary, calibration: PaceCalibration): PaceSample | null {
+  if (trip.startedAt === null || trip.endedAt === null || trip.plannedDistance <= 0) return null;
+
+  // Without reroutes the planned path is more accurate than summed GPS fixes
+  const distance = trip.reroutes === 0 ? trip.plannedDistance : trip.distanceWalked;
+  // The planned time already mixes walking and riding for cycling trips
+  const expectedMinutes = (trip.plannedMinutes / calibration.factor) * (distance / trip.plannedDistance);
+  const actualMinutes = (trip.endedAt - trip.startedAt) / 60000;
+  const ratio = actualMinutes / expectedMinutes;
+
+  if (distance < MIN_TRIP_DISTANCE || ratio < MIN_TRIP_RATIO || ratio > MAX_TRIP_RATIO) {
+    return null;
+  }
+  return { pace: calibration.pace, distance, expectedMinutes, actualMinutes, endedAt: trip.endedAt };
+}
+
+export function recordPaceSample(sample: PaceSample) {
+  const history = [...loadPaceHistory(), sample];
+  const kept = PACE_PROFILES.flatMap(({ id }) => history.filter(entry => entry.pace === id).slice(-MAX_HISTORY));
+  savePaceHistory(kept.sort((a, b) => a.endedAt - b.endedAt));
+}
+
+// How the user's trips at this pace compare with the profile. Ratios are averaged
+// in log space, so taking twice as long and half as long cancel out.
+export function calibratePace(history: PaceSample[], pace: PaceProfile): PaceCalibration {
+  const ratios = history
+    .filter(sample => sample.pace === pace)
+    .slice(-MAX_HISTORY)
+    .map(sample => Math.log(sample.actualMinutes / sample.expectedMinutes));
+  const trips = ratios.length;
+
+  if (trips === 0) {
+    return { pace, factor: 1, spread: DEFAULT_SPREAD, confidence: 'none', trips };
+  }
+
+  const sum = ratios.reduce((total, ratio) => total + ratio, 0);
+  const mean = sum / trips;
+  // The default spread is pooled in too, so a few similar trips do not claim a tight range
+  const squares = ratios.reduce((total, ratio) => total + (ratio - mean) ** 2, 0);
+  const spread = Math.sqrt((squares + PRIOR_TRIPS * DEFAULT_SPREAD ** 2) / (trips - 1 + PRIOR_TRIPS));
+
+  let confidence: EtaConfidence = 'medium';
+  if (trips < 3) confidence = 'low';
+  else if (trips >= 8 && spread <= 0.15) confidence = 'high';
+
+  return { pace, factor: Math.exp(sum / (trips + PRIOR_TRIPS)), spread, confidence, trips };
+}
+
+export function loadPaceCalibration(pace: PaceProfile): PaceCalibration {
+  return calibratePace(loadPaceHistory(), pace);
+}
+
+// Meters per minute the user actually covers at this pace, e.g. to time the walk to a shuttle stop
+export function getCalibratedSpeed(calibration: PaceCalibration): number {
+  return getPaceOption(calibration.pace).speed / calibration.factor;
+}
+
+const roundMinutes = (minutes: number) => Math.round(minutes * 10) / 10;
+
+// Rescale a route to the chosen pace and the user's calibration. Walking routes are
+// timed at the routing speed; cycling routes are already timed per segment. Shuttle
+// segments keep to the timetable whatever the pace.
+export function applyPace(route: RouteData, calibration: PaceCalibration): RouteData {
+  const option = getPaceOption(calibration.pace);
+  const scale = (option.mode === 'cycle' ? 1 : ROUTE_SPEED / option.speed) * calibration.factor;
+  const segments = route.segments?.map(segment => ({
+    ...segment,
+    estimated_time_minutes: segment.mode === 'shuttle'
+      ? segment.estimated_time_minutes
+      : roundMinutes(segment.estimated_time_minutes * scale),
+  }));
+  // Time of the segments within a stretch of the path
+  const sumSegments = ({ path_start_index, path_end_index }: Pick<RouteLeg, 'path_start_index' | 'path_end_index'>) =>
+    segments
+      ?.filter(segment => segment.path_start_index >= path_start_index && segment.path_end_index <= path_end_index)
+      .reduce((sum, segment) => sum + segment.estimated_time_minutes, 0);
+  const minutes = sumSegments({ path_start_index: 0, path_end_index: route.path_coordinates.length - 1 }) ??
+    route.estimated_time_minutes * scale;
+  // Shuttle time follows the timetable, so only the user's own travel is uncertain
+  const fixedMinutes = segments
+    ?.filter(segment => segment.mode === 'shuttle')
+    .reduce((sum, segment) => sum + segment.estimated_time_minutes, 0) ?? 0;
+  const ownMinutes = minutes - fixedMinutes;
+
+  return {
+    ...route,
+    estimated_time_minutes: roundMinutes(minutes),
+    legs: route.legs?.map(leg => ({
+      ...leg,
+      estimated_time_minutes: roundMinutes(sumSegments(leg) ?? leg.estimated_time_minutes * scale),
+    })),
+    segments,
+    alternatives: route.alternatives?.map(alternative => applyPace(alternative, calibration)),
+    eta: {
+      pace: calibration.pace,
+      low_minutes: roundMinutes(fixedMinutes + ownMinutes * Math.exp(-calibration.spread)),
+      high_minutes: roundMinutes(fixedMinutes + ownMinutes * Math.exp(calibration.spread)),
+      confidence: calibration.confidence,
+      trips: calibration.trips,
+    },
+  };
+}
+
+// Short line shown under an ETA, e.g. "8–11 min, medium confidence (5 trips)"
+export function describeEta(eta: EtaEstimate): string {
+  const label = getPaceOption(eta.pace).label;
+  if (eta.confidence === 'none') {
+    return `${label} pace, not yet personalised`;
+  }
+
+  const range = `${Math.floor(eta.low_minutes)}–${Math.ceil(eta.high_minutes)} min`;
+  return `${range}, ${eta.confidence} confidence (${eta.trips} ${eta.trips === 1 ? 'trip' : 'trips'})`;
+}
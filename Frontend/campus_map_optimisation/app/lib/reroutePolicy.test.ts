@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinate, Instruction, RouteData } from '../types/route';
+import { cumulativeDistances } from './geometry';
+import {
+  createOffRouteDetector,
+  DEFAULT_REROUTE_POLICY,
+  findNextLeg,
+  findRejoinIndex,
+  getRerouteDelay,
+  joinRoute,
+} from './reroutePolicy';
+
+// Fixes a second apart, so minOffRouteDuration does not trigger unless a test waits for it
+const feed = (detector: ReturnType<typeof createOffRouteDetector>, fixes: [distance: number, accuracy: number][], start = 0) =>
+  fixes.map(([distance, accuracy], index) => detector.update(distance, accuracy, start + index * 1000));
+
+describe('createOffRouteDetector', () => {
+  it('needs minOffRouteFixes accurate fixes before leaving the route', () => {
+    const detector = createOffRouteDetector();
+    expect(feed(detector, [[30, 5], [30, 5], [30, 5]])).toEqual([false, false, true]);
+  });
+
+  it('weights fixes by their accuracy', () => {
+    // 25 m off-route distance over 50 m accuracy: each fix counts half
+    const detector = createOffRouteDetector();
+    const results = feed(detector, Array(6).fill([30, 50]));
+    expect(results.slice(0, 5)).toEqual([false, false, false, false, false]);
+    expect(results[5]).toBe(true);
+  });
+
+  it('starts counting again after a fix back on the route', () => {
+    const detector = createOffRouteDetector();
+    expect(feed(detector, [[30, 5], [30, 5], [10, 5], [30, 5], [30, 5]])).toEqual([false, false, false, false, false]);
+    expect(detector.update(30, 5, 5000)).toBe(true);
+  });
+
+  it('keeps its state between the on-route and off-route distances', () => {
+    const detector = createOffRouteDetector();
+    feed(detector, [[30, 5], [30, 5], [30, 5]]);
+    expect(detector.update(20, 5, 3000)).toBe(true);
+    expect(detector.update(DEFAULT_REROUTE_POLICY.onRouteDistance, 5, 4000)).toBe(false);
+    expect(detector.update(20, 5, 5000)).toBe(false);
+  });
+
+  it('leaves the route once off it for minOffRouteDuration, however poor the fixes', () => {
+    const detector = createOffRouteDetector();
+    expect(detector.update(30, 100, 0)).toBe(false);
+    expect(detector.update(30, 100, DEFAULT_REROUTE_POLICY.minOffRouteDuration)).toBe(true);
+  });
+
+  it('leaves the route at once for a confident fix beyond maxOffRouteDistance', () => {
+    expect(createOffRouteDetector().update(80, 10, 0)).toBe(true);
+    // Within its accuracy the fix could still be near enough
+    expect(createOffRouteDetector().update(60, 20, 0)).toBe(false);
+  });
+});
+
+describe('getRerouteDelay', () => {
+  it('waits out minRerouteInterval after the last route', () => {
+    expect(getRerouteDelay(DEFAULT_REROUTE_POLICY, 10000, 20000)).toBe(5000);
+    expect(getRerouteDelay(DEFAULT_REROUTE_POLICY, 10000, 30000)).toBe(0);
+    expect(getRerouteDelay(DEFAULT_REROUTE_POLICY, null, 30000)).toBe(0);
+  });
+});
+
+const point = (lng: number): Coordinate => ({ lat: 0, lng });
+
+const step = (path_index: number, maneuver_type: Instruction['maneuver_type'], instruction: string): Instruction => ({
+  instruction,
+  distance: 0,
+  distance_text: '',
+  path_index,
+  location: point(path_index * 0.001),
+  turn_angle: 0,
+  maneuver_type,
+});
+
+const walk = (path: Coordinate[], instructions: Instruction[]): RouteData => {
+  const distances = cumulativeDistances(path);
+  const total = distances[distances.length - 1];
+  return {
+    start: path[0],
+    end: path[path.length - 1],
+    total_distance: total,
+    estimated_time_minutes: total / 80,
+    instructions,
+    path_coordinates: path,
+  };
+};
+
+// Two legs along the equator, about 111 m between vertices, with a stop at vertex 2
+const twoLegs = (): RouteData => {
+  const route = walk(
+    [0, 1, 2, 3, 4].map(i => point(i * 0.001)),
+    [step(0, 'depart', 'Head east'), step(2, 'waypoint', 'You have reached Library'), step(4, 'arrive', 'You have arrived')]
+  );
+  const distances = cumulativeDistances(route.path_coordinates);
+  return {
+    ...route,
+    legs: [
+      { start: point(0), end: { ...point(0.002), name: 'Library' }, distance: distances[2], estimated_time_minutes: distances[2] / 80, path_start_index: 0, path_end_index: 2 },
+      { start: point(0.002), end: point(0.004), distance: distances[4] - distances[2], estimated_time_minutes: (distances[4] - distances[2]) / 80, path_start_index: 2, path_end_index: 4 },
+    ],
+  };
+};
+
+// Straight to the given vertex of twoLegs from just south of vertex 1
+const approachTo = (index: number): RouteData =>
+  walk([{ lat: -0.0005, lng: 0.001 }, point(index * 0.001)], [step(0, 'depart', 'Head north'), step(1, 'arrive', 'You have arrived')]);
+
+describe('findNextLeg', () => {
+  it('finds the leg whose stop is still ahead', () => {
+    const route = twoLegs();
+    const distances = cumulativeDistances(route.path_coordinates);
+    expect(findNextLeg(route, distances, 0)?.path_end_index).toBe(2);
+    expect(findNextLeg(route, distances, distances[3])?.path_end_index).toBe(4);
+    expect(findNextLeg({ ...route, legs: undefined }, distances, 0)).toBeNull();
+  });
+});
+
+describe('findRejoinIndex', () => {
+  it('rejoins at the nearest vertex ahead, no further than lastIndex', () => {
+    const route = twoLegs();
+    const distances = cumulativeDistances(route.path_coordinates);
+    expect(findRejoinIndex(route, distances, 0, point(0.0031))).toBe(3);
+    expect(findRejoinIndex(route, distances, 0, point(0.0031), 2)).toBe(2);
+    expect(findRejoinIndex(route, distances, distances[2], point(0.0005))).toBe(2);
+  });
+});
+
+describe('joinRoute', () => {
+  it('adds the approach to the leg it rejoins', () => {
+    const route = twoLegs();
+    const distances = cumulativeDistances(route.path_coordinates);
+    const approach = approachTo(1);
+    const joined = joinRoute(approach, route, 1, distances);
+
+    expect(joined.path_coordinates).toHaveLength(5);
+    expect(joined.legs).toEqual([
+      expect.objectContaining({ path_start_index: 0, path_end_index: 2, start: approach.start, distance: Math.round(approach.total_distance + distances[2] - distances[1]) }),
+      expect.objectContaining({ path_start_index: 2, path_end_index: 4 }),
+    ]);
+    expect(joined.instructions.map(i => i.instruction)).toEqual(['Head north', 'Rejoin your route', 'You have reached Library', 'You have arrived']);
+  });
+
+  it('keeps the stop when the approach ends at it', () => {
+    const route = twoLegs();
+    const distances = cumulativeDistances(route.path_coordinates);
+    const approach = approachTo(2);
+    const joined = joinRoute(approach, route, 2, distances);
+
+    expect(joined.legs).toEqual([
+      expect.objectContaining({ path_start_index: 0, path_end_index: 1, end: route.legs![0].end, distance: approach.total_distance }),
+      expect.objectContaining({ path_start_index: 1, path_end_index: 3 }),
+    ]);
+    expect(joined.instructions.map(i => [i.instruction, i.path_index])).toEqual([
+      ['Head north', 0],
+      ['You have reached Library', 1],
+      ['You have arrived', 3],
+    ]);
+  });
+
+  it('leaves routes without legs without legs', () => {
+    const route = { ...twoLegs(), legs: undefined };
+    expect(joinRoute(approachTo(1), route, 1, cumulativeDistances(route.path_coordinates))).not.toHaveProperty('legs');
+  });
+});
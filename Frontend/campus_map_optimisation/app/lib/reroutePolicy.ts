@@ -0,0 +1,188 @@
+import { Coordinate, Instruction, RouteData, RouteLeg } from '../types/route';
+import { haversineDistance } from './geo';
+
+export interface ReroutePolicy {
+  offRouteDistance: number; // meters; farther fixes count towards a reroute
+  maxOffRouteDistance: number; // meters; one confident fix this far reroutes at once
+  onRouteDistance: number; // meters; closer fixes clear the off-route state (hysteresis)
+  minOffRouteFixes: number; // accuracy-weighted fixes needed before rerouting
+  minOffRouteDuration: number; // milliseconds off route that also trigger a reroute
+  minRerouteInterval: number; // milliseconds between automatic reroutes
+  rejoinTolerance: number; // rejoining is kept up to this share of a fresh path's length; at most 1
+}
+
+export const DEFAULT_REROUTE_POLICY: ReroutePolicy = {
+  offRouteDistance: 25,
+  maxOffRouteDistance: 50,
+  onRouteDistance: 15,
+  minOffRouteFixes: 3,
+  minOffRouteDuration: 10000,
+  minRerouteInterval: 15000,
+  rejoinTolerance: 1,
+};
+
+// Decides when a run of fixes away from the route means the user has left it.
+// A fix counts less the larger its accuracy circle is compared with the
+// off-route distance, so a few noisy fixes cannot trigger a reroute.
+export function createOffRouteDetector(policy: ReroutePolicy = DEFAULT_REROUTE_POLICY) {
+  let evidence = 0;
+  let offSince: number | null = null;
+  let offRoute = false;
+
+  const reset = () => {
+    evidence = 0;
+    offSince = null;
+    offRoute = false;
+  };
+
+  return {
+    // Whether the user is off the route after this fix
+    update(distance: number, accuracy: number, timestamp: number): boolean {
+      if (distance <= policy.onRouteDistance) {
+        reset();
+        return false;
+      }
+      if (distance <= policy.offRouteDistance) {
+        // Between the two thresholds nothing changes
+        return offRoute;
+      }
+
+      if (distance - accuracy > policy.maxOffRouteDistance) {
+        offRoute = true;
+        return offRoute;
+      }
+
+      evidence += Math.min(1, policy.offRouteDistance / Math.max(accuracy, 1));
+      offSince ??= timestamp;
+
+      if (evidence >= policy.minOffRouteFixes || timestamp - offSince >= policy.minOffRouteDuration) {
+        offRoute = true;
+      }
+      return offRoute;
+    },
+
+    reset,
+  };
+}
+
+export type OffRouteDetector = ReturnType<typeof createOffRouteDetector>;
+
+// Milliseconds to wait before an automatic reroute, so reroutes are at least
+// minRerouteInterval apart counting from when the last route arrived
+export function getRerouteDelay(policy: Pick<ReroutePolicy, 'minRerouteInterval'>, routedAt: number | null, now: number): number {
+  return Math.max(0, (routedAt ?? 0) + policy.minRerouteInterval - now);
+}
+
+// Leg of a multi-stop route whose stop the user has not reached yet, or null without legs
+export function findNextLeg(route: RouteData, distances: number[], alongTrack: number): RouteLeg | null {
+  return route.legs?.find(leg => distances[leg.path_end_index] > alongTrack) ?? null;
+}
+
+// Route vertex ahead of the last on-route position that is closest to the user, up to
+// lastIndex so that rejoining never skips a stop
+export function findRejoinIndex(
+  route: RouteData,
+  distances: number[],
+  alongTrack: number,
+  position: Coordinate,
+  lastIndex: number = route.path_coordinates.length - 1
+): number | null {
+  const path = route.path_coordinates;
+  let best: number | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i <= lastIndex; i++) {
+    if (distances[i] < alongTrack) continue;
+    const distance = haversineDistance(position, path[i]);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// The legs left after rejoining, indexed into the joined path. The approach becomes a leg
+// of its own when it ends at a stop, and part of the leg it rejoins otherwise.
+function joinLegs(approach: RouteData, legs: RouteLeg[], rejoinIndex: number, junction: number, distances: number[]): RouteLeg[] {
+  const shift = (index: number) => index - rejoinIndex + junction;
+  const ahead = legs
+    .filter(leg => leg.path_end_index > rejoinIndex)
+    .map(leg => ({ ...leg, path_start_index: shift(leg.path_start_index), path_end_index: shift(leg.path_end_index) }));
+  const reached = legs.find(leg => leg.path_end_index === rejoinIndex);
+
+  if (reached) {
+    return [{
+      start: approach.start,
+      end: reached.end,
+      distance: approach.total_distance,
+      estimated_time_minutes: approach.estimated_time_minutes,
+      path_start_index: 0,
+      path_end_index: junction,
+    }, ...ahead];
+  }
+
+  const [current, ...rest] = ahead;
+  if (!current) return [];
+  const original = legs[legs.length - ahead.length];
+  const legDistance = distances[original.path_end_index] - distances[original.path_start_index];
+  const remaining = distances[original.path_end_index] - distances[rejoinIndex];
+  const remainingMinutes = legDistance > 0 ? (remaining / legDistance) * original.estimated_time_minutes : 0;
+
+  return [{
+    ...current,
+    start: approach.start,
+    distance: Math.round(approach.total_distance + remaining),
+    estimated_time_minutes: Math.round((approach.estimated_time_minutes + remainingMinutes) * 10) / 10,
+    path_start_index: 0,
+  }, ...rest];
+}
+
+// The way back to the route followed by the rest of the route from the rejoin vertex
+export function joinRoute(
+  approach: RouteData,
+  route: RouteData,
+  rejoinIndex: number,
+  distances: number[]
+): RouteData {
+  const approachPath = approach.path_coordinates;
+  const rejoinPoint = route.path_coordinates[rejoinIndex];
+  const last = approachPath[approachPath.length - 1];
+  const endsOnRoute = !!last && last.lat === rejoinPoint.lat && last.lng === rejoinPoint.lng;
+  // Index of the rejoin vertex in the joined path
+  const junction = endsOnRoute ? approachPath.length - 1 : approachPath.length;
+
+  const remainingDistance = route.total_distance - distances[rejoinIndex];
+  const remainingMinutes = route.total_distance > 0
+    ? (remainingDistance / route.total_distance) * route.estimated_time_minutes
+    : 0;
+
+  const ahead = route.instructions.filter(instruction => instruction.path_index > rejoinIndex);
+  const untilNext = ahead.length > 0 ? distances[ahead[0].path_index] - distances[rejoinIndex] : 0;
+  const onward = ahead.map(instruction => ({ ...instruction, path_index: instruction.path_index - rejoinIndex + junction }));
+
+  // Rejoining at a stop still announces reaching it
+  const stop = route.instructions.find(instruction => instruction.path_index === rejoinIndex && instruction.maneuver_type === 'waypoint');
+  const instructions: Instruction[] = approach.instructions.map(instruction =>
+    instruction.maneuver_type === 'arrive'
+      ? {
+          ...instruction,
+          instruction: stop?.instruction ?? 'Rejoin your route',
+          maneuver_type: 'waypoint',
+          distance: Math.round(untilNext),
+          distance_text: untilNext > 0 ? `${Math.round(untilNext)} meters` : '',
+        }
+      : instruction
+  );
+
+  return {
+    start: approach.start,
+    end: route.end,
+    total_distance: approach.total_distance + remainingDistance,
+    estimated_time_minutes: Math.round((approach.estimated_time_minutes + remainingMinutes) * 10) / 10,
+    instructions: [...instructions, ...onward],
+    path_coordinates: [...approachPath, ...route.path_coordinates.slice(endsOnRoute ? rejoinIndex + 1 : rejoinIndex)],
+    ...(route.legs && { legs: joinLegs(approach, route.legs, rejoinIndex, junction, distances) }),
+    profile: route.profile,
+  };
+}
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { Coordinate, RouteData, RouteRequestOptions } from '../types/route';
+import { withGraphInstructions, withOfflineRouting, withShuttle } from './routing';
+import { RouteError, RouteErrorCode, toRouteError } from './routeErrors';
+
+const DEFAULT_API_URL = 'http://localhost:8000';
+const DEFAULT_TIMEOUT = 15000; // milliseconds
+
+const coordinateSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+});
+
+const routeStopSchema = coordinateSchema.extend({
+  name: z.string().optional(),
+});
+
+const maneuverTypeSchema = z.enum([
+  'depart',
+  'straight',
+  'slight_right',
+  'right',
+  'sharp_right',
+  'uturn',
+  'sharp_left',
+  'left',
+  'slight_left',
+  'waypoint',
+  'arrive',
+]);
+
+const instructionSchema = z.object({
+  instruction: z.string(),
+  distance: z.number(),
+  distance_text: z.string(),
+  path_index: z.number().int(),
+  location: coordinateSchema,
+  turn_angle: z.number(),
+  maneuver_type: maneuverTypeSchema,
+});
+
+export const routingProfileSchema = z.enum(['standard', 'step_free', 'avoid_unpaved']);
+
+const routeLegSchema = z.object({
+  start: routeStopSchema,
+  end: routeStopSchema,
+  distance: z.number(),
+  estimated_time_minutes: z.number(),
+  path_start_index: z.number().int(),
+  path_end_index: z.number().int(),
+});
+
+const profileViolationSchema = z.object({
+  reason: z.string(),
+  location: coordinateSchema,
+  path_index: z.number().int(),
+  distance: z.number(),
+});
+
+export const routeDataSchema: z.ZodType<RouteData> = z.lazy(() =>
+  z.object({
+    start: coordinateSchema,
+    end: coordinateSchema,
+    total_distance: z.number(),
+    estimated_time_minutes: z.number(),
+    instructions: z.array(instructionSchema),
+    path_coordinates: z.array(coordinateSchema),
+    legs: z.array(routeLegSchema).optional(),
+    profile: routingProfileSchema.optional(),
+    profile_violations: z.array(profileViolationSchema).optional(),
+    alternatives: z.array(routeDataSchema).optional(),
+  })
+);
+
+export const routeResponseSchema = z.discriminatedUnion('success', [
+  z.object({ success: z.literal(true), route: routeDataSchema }),
+  z.object({
+    success: z.literal(false),
+    error: z.string().optional(),
+    code: z.string().optional(),
+    details: z.object({
+      point: coordinateSchema.optional(),
+      role: z.enum(['start', 'end']).optional(),
+    }).optional(),
+  }),
+]);
+
+// Error codes from the backend or the route proxy that map directly onto the client taxonomy
+const BACKEND_ERROR_CODES: Record<string, RouteErrorCode> = {
+  NO_PATH: 'NO_PATH',
+  OUT_OF_BOUNDS: 'OUT_OF_BOUNDS',
+  BACKEND_UNREACHABLE: 'BACKEND_UNREACHABLE',
+  TIMEOUT: 'TIMEOUT',
+  MALFORMED_RESPONSE: 'MALFORMED_RESPONSE',
+  INVALID_REQUEST: 'INVALID_REQUEST',
+};
+
+// Same-origin route handler that forwards to the backend (app/api/route/route.ts)
+export const ROUTE_PROXY_PATH = '/api/route';
+
+// Only read on the server; the browser never talks to the backend directly
+export function getBackendUrl(): string {
+  return process.env.ROUTING_API_URL || DEFAULT_API_URL;
+}
+
+export function buildRouteUrl(
+  baseUrl: string,
+  start: Coordinate,
+  end: Coordinate,
+  options: RouteRequestOptions = {}
+): URL {
+  const url = new URL(baseUrl);
+  url.searchParams.set('start_lat', start.lat.toString());
+  url.searchParams.set('start_lng', start.lng.toString());
+  url.searchParams.set('end_lat', end.lat.toString());
+  url.searchParams.set('end_lng', end.lng.toString());
+  url.searchParams.set('profile', options.profile ?? 'standard');
+  return url;
+}
+
+// Abort when either the caller's signal fires or the timeout elapses
+function createRequestSignal(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(new DOMException('Route request timed out', 'TimeoutError')), timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+// Request a route and validate the response shape
+async function requestRoute(
+  url: URL,
+  options: RouteRequestOptions,
+  headers: Record<string, string> = {}
+): Promise<RouteData> {
+  const request = createRequestSignal(options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json', ...headers }, signal: request.signal });
+    const body = await response.json().catch(() => null);
+    const parsed = routeResponseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      if (!response.ok) {
+        throw new RouteError('SERVER_ERROR', `The route server returned an error (status ${response.status}).`, {
+          status: response.status,
+        });
+      }
+      console.error('Invalid route response:', parsed.error);
+      throw new RouteError('MALFORMED_RESPONSE', 'Invalid response from server. Please try again.');
+    }
+
+    if (!parsed.data.success) {
+      const { code, error, details } = parsed.data;
+      throw new RouteError(
+        (code && BACKEND_ERROR_CODES[code]) || 'SERVER_ERROR',
+        error || 'Failed to calculate route',
+        { ...details, status: response.ok ? undefined : response.status }
+      );
+    }
+
+    return parsed.data.route;
+  } catch (error) {
+    throw toRouteError(error);
+  } finally {
+    request.cleanup();
+  }
+}
+
+// Fetch a route from the routing backend; used by the route proxy on the server
+export async function fetchBackendRoute(
+  start: Coordinate,
+  end: Coordinate,
+  options: RouteRequestOptions = {}
+): Promise<RouteData> {
+  // Keep any path prefix of the backend URL, e.g. https://example.com/api
+  const url = buildRouteUrl(`${getBackendUrl().replace(/\/$/, '')}/route`, start, end, options);
+  const headers: Record<string, string> = {};
+
+  // ngrok tunnels show an interstitial page unless this header is present
+  if (url.hostname.includes('ngrok')) {
+    headers['ngrok-skip-browser-warning'] = 'true';
+  }
+
+  return requestRoute(url, options, headers);
+}
+
+// Fetch a route through the same-origin route proxy
+export async function fetchRoute(
+  start: Coordinate,
+  end: Coordinate,
+  options: RouteRequestOptions = {}
+): Promise<RouteData> {
+  return requestRoute(buildRouteUrl(new URL(ROUTE_PROXY_PATH, window.location.origin).href, start, end, options), options);
+}
+
+// Proxied backend route with graph-generated instructions, the in-browser
+// router as fallback (see NEXT_PUBLIC_ROUTING_MODE) and the campus shuttle
+export const routeProvider = withShuttle(withOfflineRouting(withGraphInstructions(fetchRoute)));
@@ -0,0 +1,45 @@
+import { Coordinate, ManeuverType, RouteData } from '../types/route';
+
+// Colours for the selected route and its alternatives, in option order
+export const ROUTE_COLORS = ['#3b82f6', '#8b5cf6', '#f97316'];
+
+export function getRouteColor(index: number): string {
+  return ROUTE_COLORS[index % ROUTE_COLORS.length];
+}
+
+// The main route followed by its alternatives
+export function getRouteOptions(route: RouteData | null | undefined): RouteData[] {
+  if (!route) return [];
+  return [route, ...(route.alternatives ?? [])];
+}
+
+const NON_TURN_MANEUVERS: ManeuverType[] = ['depart', 'straight', 'waypoint', 'arrive'];
+
+export function countTurns(route: RouteData): number {
+  return route.instructions.filter(({ maneuver_type }) => !NON_TURN_MANEUVERS.includes(maneuver_type)).length;
+}
+
+const MANEUVER_SYMBOLS: Record<ManeuverType, string> = {
+  depart: '🚀',
+  straight: '↑',
+  slight_right: '↗',
+  right: '↱',
+  sharp_right: '↘',
+  uturn: '↶',
+  sharp_left: '↙',
+  left: '↰',
+  slight_left: '↖',
+  waypoint: '📍',
+  arrive: '🏁',
+};
+
+export function getManeuverSymbol(type: ManeuverType): string {
+  return MANEUVER_SYMBOLS[type];
+}
+
+// Stretch of the route walked during a step: from its maneuver to the next one
+export function getStepPath(route: RouteData, index: number): Coordinate[] {
+  const start = route.instructions[index]?.path_index ?? 0;
+  const end = route.instructions[index + 1]?.path_index ?? route.path_coordinates.length - 1;
+  return route.path_coordinates.slice(start, end + 1);
+}
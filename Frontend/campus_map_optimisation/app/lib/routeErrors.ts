@@ -0,0 +1,91 @@
+import { Coordinate } from '../types/route';
+import type { RoutingMode } from './routing';
+
+export type RouteErrorCode =
+  | 'BACKEND_UNREACHABLE'
+  | 'NO_PATH'
+  | 'OUT_OF_BOUNDS'
+  | 'TIMEOUT'
+  | 'MALFORMED_RESPONSE'
+  | 'INVALID_REQUEST'
+  | 'SERVER_ERROR'
+  | 'CANCELLED';
+
+export type RouteRecoveryAction = 'retry' | 'snap_to_gate' | 'use_offline' | 'pick_location';
+
+export interface RouteErrorDetails {
+  point?: Coordinate; // the start or end point that caused OUT_OF_BOUNDS
+  role?: 'start' | 'end';
+  status?: number; // HTTP status for SERVER_ERROR
+}
+
+export class RouteError extends Error {
+  readonly code: RouteErrorCode;
+  readonly details: RouteErrorDetails;
+
+  constructor(code: RouteErrorCode, message: string, details: RouteErrorDetails = {}) {
+    super(message);
+    this.name = 'RouteError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const ROUTE_ERROR_INFO: Record<RouteErrorCode, { title: string; actions: RouteRecoveryAction[] }> = {
+  BACKEND_UNREACHABLE: { title: 'Cannot reach the route server', actions: ['use_offline', 'retry'] },
+  NO_PATH: { title: 'No walking path found', actions: ['pick_location'] },
+  OUT_OF_BOUNDS: { title: 'Location is outside campus', actions: ['snap_to_gate', 'pick_location'] },
+  TIMEOUT: { title: 'Route request timed out', actions: ['retry', 'use_offline'] },
+  MALFORMED_RESPONSE: { title: 'Unexpected response from the server', actions: ['retry', 'use_offline'] },
+  INVALID_REQUEST: { title: 'Invalid route request', actions: ['pick_location'] },
+  SERVER_ERROR: { title: 'Route server error', actions: ['retry', 'use_offline'] },
+  CANCELLED: { title: 'Route request cancelled', actions: ['retry'] },
+};
+
+export const RECOVERY_ACTION_LABELS: Record<RouteRecoveryAction, string> = {
+  retry: 'Try again',
+  snap_to_gate: 'Snap to nearest gate',
+  use_offline: 'Use offline router',
+  pick_location: 'Pick another location',
+};
+
+// Actions to offer for an error. Outside 'online' mode the offline router has already
+// been tried, so it is no way out.
+export function getRecoveryActions(error: RouteError, routingMode: RoutingMode): RouteRecoveryAction[] {
+  const { actions } = ROUTE_ERROR_INFO[error.code];
+  return routingMode === 'online' ? actions : actions.filter(action => action !== 'use_offline');
+}
+
+// Errors that say something about the request itself; another router would give the same answer
+export function isDefinitiveRouteError(error: unknown): boolean {
+  return error instanceof RouteError &&
+    (error.code === 'NO_PATH' || error.code === 'OUT_OF_BOUNDS' || error.code === 'INVALID_REQUEST');
+}
+
+// Normalise anything thrown while routing into a RouteError
+export function toRouteError(error: unknown): RouteError {
+  if (error instanceof RouteError) {
+    return error;
+  }
+
+  if (error instanceof DOMException) {
+    if (error.name === 'TimeoutError') {
+      return new RouteError('TIMEOUT', 'The route server took too long to respond. Please try again.');
+    }
+    if (error.name === 'AbortError') {
+      return new RouteError('CANCELLED', 'The route request was cancelled.');
+    }
+  }
+
+  // fetch rejects with a TypeError when the server cannot be reached at all
+  if (error instanceof TypeError) {
+    return new RouteError('BACKEND_UNREACHABLE', 'Cannot connect to the server. Please ensure the backend is running.');
+  }
+
+  if (error instanceof SyntaxError) {
+    return new RouteError('MALFORMED_RESPONSE', 'Invalid response from server. Please try again.');
+  }
+
+  const message = error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.';
+  return new RouteError('SERVER_ERROR', message);
+}
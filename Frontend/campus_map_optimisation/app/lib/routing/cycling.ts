@@ -0,0 +1,74 @@
+import { RouteData, RouteOptions, RouteRequestOptions, RouteStop } from '../../types/route';
+import locationData from '../../data/locations.json';
+import { loadCampusGraph, loadCyclingGraph, RoutingGraph } from './graph';
+import { calculateRoute } from './router';
+import { findNearest, joinSegments, RoutePart, tryRoute } from './segments';
+
+export const CYCLING_SPEED = 250; // meters per minute, about 15 km/h on campus roads
+
+const DOCKING_MINUTES = 1; // to take a bike from a dock, and again to return it
+const MAX_DOCK_CANDIDATES = 3; // docks tried near each end of the trip, nearest first
+
+export const BIKE_DOCKS: RouteStop[] = locationData.locations
+  .filter(location => location.category === 'Bike Dock')
+  .map(({ lat, lng, name }) => ({ lat, lng, name }));
+
+// Walk to a dock, ride to the dock that makes the whole trip quickest and walk on.
+// When no ride beats walking the whole way, the walking route is returned.
+export function calculateCyclingRoute(
+  walkingGraph: RoutingGraph,
+  cyclingGraph: RoutingGraph,
+  start: RouteStop,
+  end: RouteStop,
+  options: RouteOptions = {},
+  docks: RouteStop[] = BIKE_DOCKS
+): RouteData {
+  // Also reports OUT_OF_BOUNDS and NO_PATH exactly as a walking request would
+  const walk = calculateRoute(walkingGraph, start, end, options);
+  const walkOptions = { profile: options.profile };
+
+  const approaches = findNearest(start, docks, MAX_DOCK_CANDIDATES)
+    .map(dock => ({ dock, route: tryRoute(walkingGraph, start, dock, walkOptions) }));
+  const departures = findNearest(end, docks, MAX_DOCK_CANDIDATES)
+    .map(dock => ({ dock, route: tryRoute(walkingGraph, dock, end, walkOptions) }));
+
+  let best: { parts: RoutePart[]; minutes: number } | null = null;
+
+  for (const approach of approaches) {
+    for (const departure of departures) {
+      if (!approach.route || !departure.route || approach.dock === departure.dock) continue;
+
+      const ride = tryRoute(cyclingGraph, approach.dock, departure.dock, {});
+      if (!ride) continue;
+
+      const rideMinutes = Math.round((ride.total_distance / CYCLING_SPEED + 2 * DOCKING_MINUTES) * 10) / 10;
+      const minutes = approach.route.estimated_time_minutes + rideMinutes + departure.route.estimated_time_minutes;
+      if (best && minutes >= best.minutes) continue;
+
+      best = {
+        minutes,
+        parts: [
+          { route: approach.route, mode: 'walk', start, end: approach.dock },
+          { route: { ...ride, estimated_time_minutes: rideMinutes }, mode: 'cycle', start: approach.dock, end: departure.dock },
+          { route: departure.route, mode: 'walk', start: departure.dock, end },
+        ],
+      };
+    }
+  }
+
+  if (!best || best.minutes >= walk.estimated_time_minutes) {
+    return walk;
+  }
+  return joinSegments(best.parts, options.profile);
+}
+
+// Cycling route in the browser; the backend only plans walking routes
+export async function calculateOfflineCyclingRoute(
+  start: RouteStop,
+  end: RouteStop,
+  { signal, ...options }: RouteRequestOptions = {}
+): Promise<RouteData> {
+  const [walkingGraph, cyclingGraph] = await Promise.all([loadCampusGraph(), loadCyclingGraph()]);
+  signal?.throwIfAborted();
+  return calculateCyclingRoute(walkingGraph, cyclingGraph, start, end, options);
+}
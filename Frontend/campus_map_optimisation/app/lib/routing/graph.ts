@@ -0,0 +1,183 @@
+import { Coordinate, TravelMode } from '../../types/route';
+import { haversineDistance } from '../geo';
+import { projectOntoSegment } from '../geometry';
+
+export interface GraphBounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export interface GraphWay {
+  tags: Record<string, string>; // OSM tags kept by the build step
+  oneway?: 1 | -1; // walking direction restriction relative to the edge order; cycling reads the tags
+}
+
+// Compact walking graph as written by scripts/build-campus-graph.ts
+export interface CampusGraph {
+  bounds: GraphBounds;
+  nodes: Array<[number, number]>; // [latitude, longitude]
+  nodeTags: Record<number, Record<string, string>>; // only for nodes with kept tags
+  ways: GraphWay[];
+  edges: Array<[number, number, number, number]>; // [from node, to node, length in meters, way]
+}
+
+export interface GraphNeighbour {
+  node: number;
+  length: number;
+  way: number;
+}
+
+export interface RoutingGraph {
+  bounds: GraphBounds;
+  coordinates: Coordinate[];
+  nodeTags: Record<number, Record<string, string>>;
+  ways: GraphWay[];
+  adjacency: GraphNeighbour[][];
+}
+
+export const CAMPUS_GRAPH_URL = '/data/campus-graph.json';
+
+// Bicycles are not allowed here even though pedestrians are
+const NO_CYCLING_ACCESS = new Set(['no', 'dismount', 'use_sidepath']);
+// Not the build script's FOOT_ONLY_HIGHWAYS: highway=path is shared with cyclists
+// unless tagged otherwise, though a oneway on it still binds pedestrians
+const NO_CYCLING_HIGHWAYS = new Set(['footway', 'pedestrian', 'steps']);
+
+// Whether a walkable way may also be ridden; bicycle=* overrides the highway type
+export function isCyclable(tags: Record<string, string>): boolean {
+  if (tags.bicycle) return !NO_CYCLING_ACCESS.has(tags.bicycle);
+  return !NO_CYCLING_HIGHWAYS.has(tags.highway);
+}
+
+// Unlike pedestrians, cyclists follow the oneway tag of roads
+export function getCyclingOneway(tags: Record<string, string>): GraphWay['oneway'] {
+  const oneway = tags['oneway:bicycle'] ?? tags.oneway;
+  if (oneway === 'yes' || oneway === '1') return 1;
+  if (oneway === '-1') return -1;
+  return undefined;
+}
+
+// Expand the serialised edge list into an adjacency list usable by the router.
+// Node indices are the same for every mode, so paths can be joined across modes.
+export function createRoutingGraph(graph: CampusGraph, mode: TravelMode = 'walk'): RoutingGraph {
+  const coordinates = graph.nodes.map(([lat, lng]) => ({ lat, lng }));
+  const adjacency: GraphNeighbour[][] = coordinates.map(() => []);
+
+  for (const [from, to, length, way] of graph.edges) {
+    const { tags } = graph.ways[way];
+    if (mode === 'cycle' && !isCyclable(tags)) continue;
+
+    const oneway = mode === 'cycle' ? getCyclingOneway(tags) : graph.ways[way].oneway;
+    if (oneway !== -1) adjacency[from].push({ node: to, length, way });
+    if (oneway !== 1) adjacency[to].push({ node: from, length, way });
+  }
+
+  return { bounds: graph.bounds, coordinates, nodeTags: graph.nodeTags, ways: graph.ways, adjacency };
+}
+
+export function isWithinBounds(bounds: GraphBounds, point: Coordinate): boolean {
+  return point.lat >= bounds.minLat && point.lat <= bounds.maxLat &&
+    point.lng >= bounds.minLng && point.lng <= bounds.maxLng;
+}
+
+// Closest graph node to an arbitrary point, ignoring isolated nodes
+export function findNearestNode(graph: RoutingGraph, point: Coordinate): number {
+  let nearest = -1;
+  let minDistance = Infinity;
+
+  for (let i = 0; i < graph.coordinates.length; i++) {
+    if (graph.adjacency[i].length === 0) {
+      continue;
+    }
+
+    const distance = haversineDistance(point, graph.coordinates[i]);
+    if (distance < minDistance) {
+      minDistance = distance;
+      nearest = i;
+    }
+  }
+
+  return nearest;
+}
+
+// Closest point on any walkable edge, with its distance in meters
+export function closestPointOnGraph(graph: RoutingGraph, point: Coordinate): { point: Coordinate; distance: number } | null {
+  let best: { point: Coordinate; distance: number } | null = null;
+
+  graph.adjacency.forEach((neighbours, from) => {
+    for (const { node } of neighbours) {
+      // Each undirected edge appears twice; measure it once
+      if (node < from && graph.adjacency[node].some(neighbour => neighbour.node === from)) continue;
+
+      const projection = projectOntoSegment(point, graph.coordinates[from], graph.coordinates[node]);
+      if (!best || projection.distance < best.distance) {
+        best = { point: projection.point, distance: projection.distance };
+      }
+    }
+  });
+
+  return best;
+}
+
+// Closest campus gate (barrier=gate node) to a point, or -1 if the graph has none
+export function findNearestGate(graph: RoutingGraph, point: Coordinate): number {
+  let nearest = -1;
+  let minDistance = Infinity;
+
+  for (const [index, tags] of Object.entries(graph.nodeTags)) {
+    if (tags.barrier !== 'gate') continue;
+
+    const distance = haversineDistance(point, graph.coordinates[Number(index)]);
+    if (distance < minDistance) {
+      minDistance = distance;
+      nearest = Number(index);
+    }
+  }
+
+  return nearest;
+}
+
+let graphPromise: Promise<CampusGraph> | null = null;
+const routingGraphs = new Map<TravelMode, Promise<RoutingGraph>>();
+
+// Fetch the prebuilt campus graph once and share it between callers
+function fetchCampusGraph(url: string): Promise<CampusGraph> {
+  if (!graphPromise) {
+    graphPromise = fetch(url)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load campus graph (status ${response.status})`);
+        }
+        return response.json() as Promise<CampusGraph>;
+      })
+      .catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        graphPromise = null;
+        throw error;
+      });
+  }
+
+  return graphPromise;
+}
+
+function loadRoutingGraph(url: string, mode: TravelMode): Promise<RoutingGraph> {
+  let graph = routingGraphs.get(mode);
+  if (!graph) {
+    graph = fetchCampusGraph(url).then(campusGraph => createRoutingGraph(campusGraph, mode));
+    graph.catch(() => routingGraphs.delete(mode));
+    routingGraphs.set(mode, graph);
+  }
+  return graph;
+}
+
+// Walking graph, shared between callers
+export function loadCampusGraph(url: string = CAMPUS_GRAPH_URL): Promise<RoutingGraph> {
+  return loadRoutingGraph(url, 'walk');
+}
+
+// Ways that may be ridden, with their oneway restrictions
+export function loadCyclingGraph(url: string = CAMPUS_GRAPH_URL): Promise<RoutingGraph> {
+  return loadRoutingGraph(url, 'cycle');
+}
@@ -0,0 +1,10 @@
+export * from './graph';
+export * from './router';
+export * from './instructions';
+export * from './provider';
+export * from './profiles';
+export * from './multiStop';
+export * from './landmarks';
+export * from './cycling';
+export * from './segments';
+export * from './shuttle';
@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { offsetCoordinate } from '../geometry';
+import { CampusGraph, createRoutingGraph } from './graph';
+import { generateInstructions } from './instructions';
+import { calculateRoute } from './router';
+
+const campusGraph = JSON.parse(
+  readFileSync(resolve(__dirname, '../../../public/data/campus-graph.json'), 'utf8')
+) as CampusGraph;
+const graph = createRoutingGraph(campusGraph);
+
+describe('generateInstructions on the campus graph', () => {
+  // Vertices 17 and 18 are 4.2 m apart; the real turns there are -1° and -92°
+  it('merges close vertices into the turn they make together', () => {
+    const route = calculateRoute(
+      graph,
+      { lat: 28.525331, lng: 77.576931, name: 'SNU Lake' },
+      { lat: 28.5274311, lng: 77.5728078, name: 'Supermarket' }
+    );
+    const turn = route.instructions.find(instruction => instruction.path_index === 17);
+
+    expect(route.instructions.some(instruction => instruction.maneuver_type === 'uturn')).toBe(false);
+    expect(turn?.maneuver_type).toBe('left');
+    expect(turn?.turn_angle).toBeGreaterThan(-105);
+    expect(turn?.turn_angle).toBeLessThan(-75);
+  });
+});
+
+describe('generateInstructions with landmarks', () => {
+  const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+  const landmarksFor = (path: { lat: number; lng: number }[], name: string, at: { lat: number; lng: number }) => ({
+    landmarks: [{ name, ...at }],
+    origin: { ...path[0], name: 'Start' },
+    destination: { ...path[path.length - 1], name: 'End' },
+  });
+
+  // 10 m north, then one long 290 m segment north
+  it('announces a landmark passed halfway along a long segment', () => {
+    const path = [LIBRARY, offsetCoordinate(LIBRARY, 10, 0), offsetCoordinate(LIBRARY, 300, 0)];
+    const instructions = generateInstructions(path, undefined, landmarksFor(path, 'SARC', offsetCoordinate(LIBRARY, 150, 15)));
+
+    expect(instructions.map(instruction => instruction.instruction)).toContain('Pass SARC on your right');
+  });
+
+  // 200 m north, then right for 200 m; the landmark is 25 m along the new direction
+  it('does not turn "at" a landmark past the turn', () => {
+    const corner = offsetCoordinate(LIBRARY, 200, 0);
+    const path = [LIBRARY, corner, offsetCoordinate(corner, 0, 200)];
+    const instructions = generateInstructions(path, undefined, landmarksFor(path, 'SARC', offsetCoordinate(corner, 5, 25)));
+    const turn = instructions.find(instruction => instruction.path_index === 1);
+
+    expect(turn?.maneuver_type).toBe('right');
+    expect(turn?.instruction).toBe('Turn right');
+  });
+});
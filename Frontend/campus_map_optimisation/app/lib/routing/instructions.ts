@@ -0,0 +1,262 @@
+import { Coordinate, Instruction, ManeuverType } from '../../types/route';
+import { bearingDelta, calculateBearing, haversineDistance } from '../geo';
+import { closestPointOnPolyline, cumulativeDistances, pointAtDistance, PolylineProjection } from '../geometry';
+import type { RoutingGraph } from './graph';
+import { findNearestLandmark, findStopLandmark, getLandmarkSide, Landmark, RouteLandmarks } from './landmarks';
+
+export const MANEUVER_INSTRUCTIONS: Record<ManeuverType, string> = {
+  depart: 'Start your journey',
+  straight: 'Continue straight',
+  slight_right: 'Turn slight right',
+  right: 'Turn right',
+  sharp_right: 'Turn sharp right',
+  uturn: 'Make a U-turn',
+  sharp_left: 'Turn sharp left',
+  left: 'Turn left',
+  slight_left: 'Turn slight left',
+  waypoint: 'You have reached your stop',
+  arrive: 'You have arrived at your destination',
+};
+
+// Same thresholds as generate_navigation_instructions in Backend/get_route.py
+export function getManeuverType(angle: number): ManeuverType {
+  if (angle >= -15 && angle <= 15) return 'straight';
+  if (angle > 15 && angle <= 75) return 'slight_right';
+  if (angle > 75 && angle <= 105) return 'right';
+  if (angle > 105 && angle <= 165) return 'sharp_right';
+  if (angle > 165 || angle < -165) return 'uturn';
+  if (angle < -105) return 'sharp_left';
+  if (angle < -75) return 'left';
+  return 'slight_left';
+}
+
+export function getTurnDirection(fromBearing: number, toBearing: number): string {
+  return MANEUVER_INSTRUCTIONS[getManeuverType(bearingDelta(fromBearing, toBearing))];
+}
+
+export interface InstructionOptions {
+  // Meters either side of a vertex over which its turn is measured, so a curve reads as one bend
+  bearingWindow: number;
+  // Maneuvers closer together than this many meters are merged into one
+  minManeuverSpacing: number;
+  // Meters from a turn, or from the start or end of the route, within which a landmark is named
+  landmarkRadius: number;
+  // Meters from the path within which a landmark is announced as passed
+  passRadius: number;
+}
+
+export const DEFAULT_INSTRUCTION_OPTIONS: InstructionOptions = {
+  bearingWindow: 15,
+  minManeuverSpacing: 20,
+  landmarkRadius: 40,
+  passRadius: 30,
+};
+
+interface Maneuver {
+  type: ManeuverType;
+  pathIndex: number;
+  angle: number;
+  name?: string; // name of the path joined at the maneuver
+  landmark?: string; // place the maneuver happens at or is described by
+  // How the landmark relates to the maneuver: turn at it, turn once past it, or pass it on one side
+  relation?: 'at' | 'after' | 'left' | 'right';
+}
+
+const coordinateKey = ({ lat, lng }: Coordinate) => `${lat},${lng}`;
+
+// Node lookup by coordinate, built once per graph
+const nodeIndexes = new WeakMap<RoutingGraph, Map<string, number>>();
+
+function getNodeIndex(graph: RoutingGraph): Map<string, number> {
+  let index = nodeIndexes.get(graph);
+  if (!index) {
+    index = new Map(graph.coordinates.map((coordinate, node) => [coordinateKey(coordinate), node]));
+    nodeIndexes.set(graph, index);
+  }
+  return index;
+}
+
+// A walker only needs an instruction where more than one onward path is on offer
+function isJunction(graph: RoutingGraph, node: number): boolean {
+  return new Set(graph.adjacency[node].map(neighbour => neighbour.node)).size >= 3;
+}
+
+function getWayName(graph: RoutingGraph, from: number | undefined, to: number | undefined): string | undefined {
+  if (from === undefined || to === undefined) return undefined;
+  const edge = graph.adjacency[from].find(neighbour => neighbour.node === to);
+  return edge ? graph.ways[edge.way].tags.name : undefined;
+}
+
+function describeManeuver({ type, name, landmark, relation }: Maneuver, distance: number): string {
+  switch (type) {
+    case 'depart': {
+      const start = landmark ? `Start your journey at ${landmark}` : MANEUVER_INSTRUCTIONS.depart;
+      return name ? `${start} on ${name}` : start;
+    }
+    case 'arrive':
+      return landmark ? `You have arrived at ${landmark}` : MANEUVER_INSTRUCTIONS.arrive;
+    case 'waypoint':
+      return MANEUVER_INSTRUCTIONS.waypoint;
+    case 'straight':
+      if (landmark && (relation === 'left' || relation === 'right')) {
+        return `Pass ${landmark} on your ${relation}`;
+      }
+      return name ? `Continue on ${name} for ${Math.round(distance)} m` : MANEUVER_INSTRUCTIONS.straight;
+    default: {
+      const turn = landmark ? `${MANEUVER_INSTRUCTIONS[type]} ${relation} ${landmark}` : MANEUVER_INSTRUCTIONS[type];
+      return name ? `${turn} onto ${name}` : turn;
+    }
+  }
+}
+
+const createInstruction = (path: Coordinate[], maneuver: Maneuver, distance: number): Instruction => ({
+  instruction: describeManeuver(maneuver, distance),
+  distance: Math.round(distance),
+  distance_text: distance > 0 ? `${Math.round(distance)} meters` : '',
+  path_index: maneuver.pathIndex,
+  location: path[maneuver.pathIndex],
+  turn_angle: Math.round(maneuver.angle),
+  maneuver_type: maneuver.type,
+});
+
+// Landmarks projecting onto the path within this far of a turn are turned "at"; farther
+// before it they are turned "after", and farther past it they are not named for the turn
+const AT_LANDMARK_DISTANCE = 10; // meters
+
+// Names the origin, destination and turns after nearby landmarks, and adds a
+// "Pass X on your left" step between maneuvers that are far enough apart
+function addLandmarks(
+  path: Coordinate[],
+  distances: number[],
+  maneuvers: Maneuver[],
+  { landmarks, origin: start, destination: end }: RouteLandmarks,
+  options: InstructionOptions
+): Maneuver[] {
+  const origin = findStopLandmark(start, landmarks, options.landmarkRadius);
+  const destination = findStopLandmark(end, landmarks, options.landmarkRadius);
+  // Each landmark is mentioned once, and places at either end of the trip are left to the
+  // start and arrival messages
+  const used = new Set(landmarks
+    .filter(landmark => haversineDistance(start, landmark) <= options.landmarkRadius ||
+      haversineDistance(end, landmark) <= options.landmarkRadius)
+    .map(landmark => landmark.name));
+  const projections = new Map(landmarks.map(landmark => [landmark, closestPointOnPolyline(landmark, path, distances)]));
+
+  const named = maneuvers.map((maneuver): Maneuver => {
+    switch (maneuver.type) {
+      case 'depart':
+        return origin ? { ...maneuver, landmark: origin.name } : maneuver;
+      case 'arrive':
+        return destination ? { ...maneuver, landmark: destination.name } : maneuver;
+      case 'straight':
+      case 'waypoint':
+        return maneuver;
+    }
+
+    const turnAt = distances[maneuver.pathIndex];
+    const alongTrackOf = (landmark: Landmark) => projections.get(landmark)?.alongTrack ?? turnAt;
+    const candidates = landmarks.filter(landmark => alongTrackOf(landmark) <= turnAt + AT_LANDMARK_DISTANCE);
+    const landmark = findNearestLandmark(path[maneuver.pathIndex], candidates, options.landmarkRadius, used);
+    if (!landmark) return maneuver;
+    used.add(landmark.name);
+    const relation = alongTrackOf(landmark) < turnAt - AT_LANDMARK_DISTANCE ? 'after' : 'at';
+    return { ...maneuver, landmark: landmark.name, relation };
+  });
+
+  return named.flatMap((maneuver, index) => {
+    const next = named[index + 1];
+    if (!next) return [maneuver];
+
+    // Passed landmarks keep the usual spacing from the maneuvers either side
+    const from = distances[maneuver.pathIndex] + options.minManeuverSpacing;
+    const to = distances[next.pathIndex] - options.minManeuverSpacing;
+    let passed: { landmark: Landmark; projection: PolylineProjection } | null = null;
+
+    for (const landmark of landmarks) {
+      const projection = projections.get(landmark);
+      if (!projection || used.has(landmark.name) || projection.distance > options.passRadius) continue;
+      // Where the landmark is beside the path, not the vertex before it, which may be far back
+      if (projection.alongTrack < from || projection.alongTrack > to) continue;
+      // The step is announced at that vertex, which must still lie between the two maneuvers
+      if (projection.segmentIndex <= maneuver.pathIndex || projection.segmentIndex >= next.pathIndex) continue;
+      if (!passed || projection.distance < passed.projection.distance) {
+        passed = { landmark, projection };
+      }
+    }
+
+    if (!passed) return [maneuver];
+    used.add(passed.landmark.name);
+    return [maneuver, {
+      type: 'straight',
+      pathIndex: passed.projection.segmentIndex,
+      angle: 0,
+      landmark: passed.landmark.name,
+      relation: getLandmarkSide(path, passed.landmark, passed.projection),
+    }];
+  });
+}
+
+// Turn-by-turn instructions for a route's geometry. With the campus graph,
+// maneuvers are only placed at junctions and name the path being joined;
+// without it every vertex is a possible maneuver. Landmarks near the route
+// are worked into the directions.
+export function generateInstructions(
+  path: Coordinate[],
+  graph?: RoutingGraph,
+  landmarks?: RouteLandmarks,
+  options: InstructionOptions = DEFAULT_INSTRUCTION_OPTIONS
+): Instruction[] {
+  if (path.length < 2) {
+    return [];
+  }
+
+  const distances = cumulativeDistances(path);
+  const totalDistance = distances[distances.length - 1];
+  const nodeIndex = graph ? getNodeIndex(graph) : null;
+  const nodes = path.map(point => nodeIndex?.get(coordinateKey(point)));
+  // Name of the path from each vertex to the next
+  const names = path.slice(0, -1).map((_, i) => graph ? getWayName(graph, nodes[i], nodes[i + 1]) : undefined);
+
+  // Headings over the window before and after a vertex, so a curve reads as one bend
+  const bearingInto = (i: number) =>
+    calculateBearing(pointAtDistance(path, distances[i] - options.bearingWindow, distances), path[i]);
+  const bearingOutOf = (i: number) =>
+    calculateBearing(path[i], pointAtDistance(path, Math.min(totalDistance, distances[i] + options.bearingWindow), distances));
+
+  const maneuvers: Maneuver[] = [{ type: 'depart', pathIndex: 0, angle: 0, name: names[0] }];
+
+  for (let i = 1; i < path.length - 1; i++) {
+    const node = nodes[i];
+    if (graph && node !== undefined && !isJunction(graph, node)) continue;
+
+    const angle = bearingDelta(bearingInto(i), bearingOutOf(i));
+    const renamed = names[i] !== undefined && names[i] !== names[i - 1];
+
+    const previous = maneuvers[maneuvers.length - 1];
+    if (previous.type !== 'depart' && distances[i] - distances[previous.pathIndex] < options.minManeuverSpacing) {
+      // Close maneuvers become one turn from the heading before the first to the heading
+      // after the last; adding their angles would count the overlapping windows twice.
+      // A left-right jog cancels out.
+      const merged = bearingDelta(bearingInto(previous.pathIndex), bearingOutOf(i));
+      const type = getManeuverType(merged);
+      maneuvers.pop();
+      if (type !== 'straight' || renamed) {
+        maneuvers.push({ type, pathIndex: previous.pathIndex, angle: merged, name: names[i] ?? previous.name });
+      }
+      continue;
+    }
+
+    const type = getManeuverType(angle);
+    if (type !== 'straight' || renamed) {
+      maneuvers.push({ type, pathIndex: i, angle, name: names[i] });
+    }
+  }
+
+  maneuvers.push({ type: 'arrive', pathIndex: path.length - 1, angle: 0 });
+  const described = landmarks ? addLandmarks(path, distances, maneuvers, landmarks, options) : maneuvers;
+
+  return described.map((maneuver, index) => {
+    const nextIndex = described[index + 1]?.pathIndex ?? path.length - 1;
+    return createInstruction(path, maneuver, distances[nextIndex] - distances[maneuver.pathIndex]);
+  });
+}
@@ -0,0 +1,54 @@
+import { Coordinate, RouteStop } from '../../types/route';
+import { Location } from '../../types/location';
+import locationData from '../../data/locations.json';
+import { bearingDelta, calculateBearing, haversineDistance } from '../geo';
+import { PolylineProjection, segmentBearing } from '../geometry';
+
+// Anything with a name and a position can be referred to in directions
+export type Landmark = Pick<Location, 'name' | 'lat' | 'lng'>;
+
+// Bike docks are sample positions, not surveyed, so directions do not refer to them
+export const CAMPUS_LANDMARKS: Landmark[] = locationData.locations
+  .filter(location => location.category !== 'Bike Dock');
+
+// Places to mention in a route's directions
+export interface RouteLandmarks {
+  landmarks: Landmark[];
+  // Requested ends of the trip; the path itself may stop short of them at the nearest node
+  origin: RouteStop;
+  destination: RouteStop;
+}
+
+// Closest landmark within the radius of a point, skipping the excluded names
+export function findNearestLandmark(
+  point: Coordinate,
+  landmarks: Landmark[],
+  radius: number,
+  exclude: Set<string> = new Set()
+): Landmark | null {
+  let best: Landmark | null = null;
+  let bestDistance = radius;
+
+  for (const landmark of landmarks) {
+    if (exclude.has(landmark.name)) continue;
+    const distance = haversineDistance(point, landmark);
+    if (distance <= bestDistance) {
+      best = landmark;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// The landmark a trip starts or ends at: the one the stop is named after, else the
+// nearest, since several places can share a building
+export function findStopLandmark(stop: RouteStop, landmarks: Landmark[], radius: number): Landmark | null {
+  const named = landmarks.find(landmark => landmark.name === stop.name && haversineDistance(stop, landmark) <= radius);
+  return named ?? findNearestLandmark(stop, landmarks, radius);
+}
+
+// Which side of the path a landmark is on, seen by someone walking along it
+export function getLandmarkSide(path: Coordinate[], landmark: Landmark, projection: PolylineProjection): 'left' | 'right' {
+  const heading = segmentBearing(path, projection.segmentIndex);
+  return bearingDelta(heading, calculateBearing(projection.point, landmark)) >= 0 ? 'right' : 'left';
+}
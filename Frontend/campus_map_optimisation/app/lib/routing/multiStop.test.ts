@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { RouteData, RouteStop } from '../../types/route';
+import { haversineDistance } from '../geo';
+import { offsetCoordinate } from '../geometry';
+import { combineLegs, findShortestStopOrder, planMultiStopRoute } from './multiStop';
+import { RouteProvider } from './provider';
+
+const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+
+// Repeatable pseudo-random stops within a kilometre of the Library
+function randomStops(count: number, seed: number): RouteStop[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, index) => ({
+    ...offsetCoordinate(LIBRARY, random() * 1000, random() * 1000),
+    name: `Stop ${index}`,
+  }));
+}
+
+const distanceMatrix = (stops: RouteStop[]) => stops.map(a => stops.map(b => haversineDistance(a, b)));
+const orderDistance = (distances: number[][], order: number[]) =>
+  order.slice(1).reduce((sum, stop, i) => sum + distances[order[i]][stop], 0);
+
+// Straight-line legs: a path of the two stops, timed at 80 m/min
+const straightProvider: RouteProvider = async (start, end) => {
+  const distance = Math.round(haversineDistance(start, end));
+  const location = (point: { lat: number; lng: number }) => ({ lat: point.lat, lng: point.lng });
+  return {
+    start: location(start),
+    end: location(end),
+    total_distance: distance,
+    estimated_time_minutes: Math.round((distance / 80) * 10) / 10,
+    instructions: [
+      { instruction: 'Start', distance, distance_text: '', path_index: 0, location: location(start), turn_angle: 0, maneuver_type: 'depart' },
+      { instruction: 'Arrive', distance: 0, distance_text: '', path_index: 1, location: location(end), turn_angle: 0, maneuver_type: 'arrive' },
+    ],
+    path_coordinates: [location(start), location(end)],
+  } satisfies RouteData;
+};
+
+describe('findShortestStopOrder', () => {
+  // 2 to 6 intermediates are searched exhaustively, 7 and 8 greedily
+  for (let intermediates = 2; intermediates <= 8; intermediates++) {
+    it(`keeps the ends and is no longer than the given order with ${intermediates} intermediate stops`, () => {
+      for (let seed = 1; seed <= 5; seed++) {
+        const distances = distanceMatrix(randomStops(intermediates + 2, seed * 97 + intermediates));
+        const order = findShortestStopOrder(distances);
+        const given = distances.map((_, index) => index);
+
+        expect(order[0]).toBe(0);
+        expect(order[order.length - 1]).toBe(given.length - 1);
+        expect([...order].sort((a, b) => a - b)).toEqual(given);
+        expect(orderDistance(distances, order)).toBeLessThanOrEqual(orderDistance(distances, given) + 1e-9);
+      }
+    });
+  }
+
+  it('finds the best order when searching exhaustively', () => {
+    // Stops on a line, listed out of order: 0, 3, 1, 2, 4
+    const positions = [0, 300, 100, 200, 400];
+    const distances = positions.map(a => positions.map(b => Math.abs(a - b)));
+    expect(findShortestStopOrder(distances)).toEqual([0, 2, 3, 1, 4]);
+  });
+
+  it('keeps the given order when nearest-neighbour would be longer', () => {
+    // Seven intermediates: greedy heads for 20 first and must come back for -30 at the end
+    const positions = [0, -30, 20, 40, 60, 80, 90, 95, 100];
+    const distances = positions.map(a => positions.map(b => Math.abs(a - b)));
+    expect(findShortestStopOrder(distances)).toEqual(positions.map((_, index) => index));
+  });
+});
+
+describe('combineLegs', () => {
+  it('adds up the legs and keeps their boundaries', async () => {
+    const stops = randomStops(4, 7);
+    const routes = await Promise.all(stops.slice(1).map((stop, i) => straightProvider(stops[i], stop)));
+    const route = combineLegs(stops, routes);
+
+    expect(route.legs).toHaveLength(3);
+    expect(route.total_distance).toBe(route.legs!.reduce((sum, leg) => sum + leg.distance, 0));
+    expect(route.estimated_time_minutes).toBeCloseTo(routes.reduce((sum, leg) => sum + leg.estimated_time_minutes, 0), 1);
+    route.legs!.forEach((leg, index) => {
+      expect(leg.distance).toBe(routes[index].total_distance);
+      expect(route.path_coordinates[leg.path_end_index]).toEqual(routes[index].end);
+      if (index > 0) expect(leg.path_start_index).toBe(route.legs![index - 1].path_end_index);
+    });
+    expect(route.path_coordinates).toHaveLength(4);
+  });
+
+  it('turns the arrivals at intermediate stops into waypoints', async () => {
+    const stops = randomStops(3, 11);
+    const route = combineLegs(stops, await Promise.all([straightProvider(stops[0], stops[1]), straightProvider(stops[1], stops[2])]));
+
+    expect(route.instructions.map(instruction => instruction.maneuver_type)).toEqual(['depart', 'waypoint', 'depart', 'arrive']);
+    expect(route.instructions[1].instruction).toBe('You have reached Stop 1');
+    expect(route.instructions[1].path_index).toBe(1);
+  });
+});
+
+describe('planMultiStopRoute', () => {
+  it('visits every stop, in a no longer order when optimising, from the same start to the same end', async () => {
+    const stops = randomStops(6, 23);
+    const given = await planMultiStopRoute(stops, straightProvider);
+    const optimised = await planMultiStopRoute(stops, straightProvider, { optimiseOrder: true });
+
+    expect(optimised.total_distance).toBeLessThanOrEqual(given.total_distance);
+    expect(optimised.legs![0].start).toEqual(stops[0]);
+    expect(optimised.legs![optimised.legs!.length - 1].end).toEqual(stops[stops.length - 1]);
+    expect(new Set(optimised.legs!.map(leg => leg.end.name))).toEqual(new Set(stops.slice(1).map(stop => stop.name)));
+  });
+});
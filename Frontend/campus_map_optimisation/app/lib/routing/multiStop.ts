@@ -0,0 +1,206 @@
+import { Coordinate, Instruction, ProfileViolation, RouteData, RouteLeg, RouteOptions, RouteSegment, RouteStop } from '../../types/route';
+import type { RouteProvider } from './provider';
+
+// Above this many intermediate stops, fall back to a nearest-neighbour ordering
+const MAX_EXHAUSTIVE_STOPS = 6;
+
+export interface MultiStopOptions extends RouteOptions {
+  optimiseOrder?: boolean;
+}
+
+const describeStop = (stop: RouteStop, index: number) => stop.name || `stop ${index + 1}`;
+
+const isSamePoint = (a: Coordinate, b: Coordinate) => a.lat === b.lat && a.lng === b.lng;
+
+// Join per-leg routes into one route, keeping the leg boundaries
+export function combineLegs(stops: RouteStop[], routes: RouteData[]): RouteData {
+  const pathCoordinates: Coordinate[] = [];
+  const instructions: Instruction[] = [];
+  const legs: RouteLeg[] = [];
+  const violations: ProfileViolation[] = [];
+  const segments: RouteSegment[] = [];
+
+  routes.forEach((route, index) => {
+    const isLastLeg = index === routes.length - 1;
+    const path = route.path_coordinates;
+    const skipFirst = pathCoordinates.length > 0 && path.length > 0 &&
+      isSamePoint(pathCoordinates[pathCoordinates.length - 1], path[0]);
+    const pathStartIndex = skipFirst ? pathCoordinates.length - 1 : pathCoordinates.length;
+
+    pathCoordinates.push(...(skipFirst ? path.slice(1) : path));
+
+    for (const violation of route.profile_violations ?? []) {
+      violations.push({ ...violation, path_index: violation.path_index + pathStartIndex });
+    }
+
+    // A leg without segments was walked all the way
+    const legSegments = route.segments ?? [{
+      mode: 'walk',
+      start: stops[index],
+      end: stops[index + 1],
+      distance: route.total_distance,
+      estimated_time_minutes: route.estimated_time_minutes,
+      path_start_index: 0,
+      path_end_index: path.length - 1,
+    }];
+    for (const segment of legSegments) {
+      segments.push({
+        ...segment,
+        path_start_index: segment.path_start_index + pathStartIndex,
+        path_end_index: segment.path_end_index + pathStartIndex,
+      });
+    }
+
+    route.instructions.forEach(instruction => {
+      const offset = { ...instruction, path_index: instruction.path_index + pathStartIndex };
+      if (instruction.maneuver_type === 'arrive' && !isLastLeg) {
+        instructions.push({
+          ...offset,
+          instruction: `You have reached ${describeStop(stops[index + 1], index + 1)}`,
+          maneuver_type: 'waypoint',
+        });
+      } else {
+        instructions.push(offset);
+      }
+    });
+
+    legs.push({
+      start: stops[index],
+      end: stops[index + 1],
+      distance: route.total_distance,
+      estimated_time_minutes: route.estimated_time_minutes,
+      path_start_index: pathStartIndex,
+      path_end_index: pathCoordinates.length - 1,
+    });
+  });
+
+  const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const totalTime = legs.reduce((sum, leg) => sum + leg.estimated_time_minutes, 0);
+
+  const combined: RouteData = {
+    start: { lat: stops[0].lat, lng: stops[0].lng },
+    end: { lat: stops[stops.length - 1].lat, lng: stops[stops.length - 1].lng },
+    total_distance: totalDistance,
+    estimated_time_minutes: Math.round(totalTime * 10) / 10,
+    instructions,
+    path_coordinates: pathCoordinates,
+    legs,
+    profile: routes[0]?.profile,
+  };
+
+  if (routes.some(route => route.profile_violations)) {
+    combined.profile_violations = violations;
+  }
+  if (routes.some(route => route.segments)) {
+    combined.segments = segments;
+  }
+  return combined;
+}
+
+function* permutations(items: number[]): Generator<number[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const permutation of permutations(rest)) {
+      yield [items[i], ...permutation];
+    }
+  }
+}
+
+// Order of stop indices with the shortest total distance; start and destination stay fixed
+export function findShortestStopOrder(distances: number[][]): number[] {
+  const last = distances.length - 1;
+  const intermediates = Array.from({ length: Math.max(0, last - 1) }, (_, i) => i + 1);
+  const totalDistance = (order: number[]) =>
+    order.slice(1).reduce((sum, stop, i) => sum + distances[order[i]][stop], 0);
+
+  if (intermediates.length <= MAX_EXHAUSTIVE_STOPS) {
+    let best = [0, ...intermediates, last];
+    let bestDistance = totalDistance(best);
+
+    for (const permutation of permutations(intermediates)) {
+      const order = [0, ...permutation, last];
+      const distance = totalDistance(order);
+      if (distance < bestDistance) {
+        best = order;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  // Greedy nearest neighbour for long stop lists, kept only if it beats the given order
+  const order = [0];
+  const remaining = new Set(intermediates);
+  while (remaining.size > 0) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (const stop of remaining) {
+      if (nearest === -1 || distances[current][stop] < distances[current][nearest]) {
+        nearest = stop;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+  order.push(last);
+  const given = [0, ...intermediates, last];
+  return totalDistance(order) < totalDistance(given) ? order : given;
+}
+
+// Route through every stop in order, optionally reordering the intermediate stops first
+export async function planMultiStopRoute(
+  stops: RouteStop[],
+  provider: RouteProvider,
+  { optimiseOrder = false, ...routeOptions }: MultiStopOptions = {}
+): Promise<RouteData> {
+  if (stops.length < 2) {
+    throw new Error('A route needs at least a start and a destination');
+  }
+
+  // Shuttle departures are timed from the start of the trip, so only direct trips use them
+  const legOptions = stops.length > 2 ? { ...routeOptions, useShuttle: false } : routeOptions;
+  const legCache = new Map<string, Promise<RouteData>>();
+  const getLeg = (from: number, to: number) => {
+    const key = `${from}-${to}`;
+    let leg = legCache.get(key);
+    if (!leg) {
+      leg = provider(stops[from], stops[to], legOptions);
+      legCache.set(key, leg);
+    }
+    return leg;
+  };
+
+  let order = stops.map((_, index) => index);
+
+  if (optimiseOrder && stops.length > 3) {
+    // Walking distances are treated as symmetric, so each pair is routed once
+    const distances: number[][] = stops.map(() => new Array(stops.length).fill(0));
+    const pairs: Array<Promise<void>> = [];
+
+    for (let i = 0; i < stops.length; i++) {
+      for (let j = i + 1; j < stops.length; j++) {
+        pairs.push(getLeg(i, j).then(route => {
+          distances[i][j] = route.total_distance;
+          distances[j][i] = route.total_distance;
+        }));
+      }
+    }
+
+    await Promise.all(pairs);
+    order = findShortestStopOrder(distances);
+  }
+
+  const routes = await Promise.all(order.slice(1).map((stop, i) => getLeg(order[i], stop)));
+  const route = combineLegs(order.map(index => stops[index]), routes);
+
+  // Alternatives are only offered for single-leg trips
+  if (routes.length === 1 && routes[0].alternatives) {
+    route.alternatives = routes[0].alternatives;
+  }
+  return route;
+}
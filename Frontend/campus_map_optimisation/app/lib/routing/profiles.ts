@@ -0,0 +1,75 @@
+import { RoutingProfile } from '../../types/route';
+import { GraphNeighbour, RoutingGraph } from './graph';
+
+export const ROUTING_PROFILES: Array<{ id: RoutingProfile; label: string; description: string }> = [
+  { id: 'standard', label: 'Standard', description: 'Shortest walking route' },
+  { id: 'step_free', label: 'Step-free', description: 'Avoids steps, raised kerbs and barriers' },
+  { id: 'avoid_unpaved', label: 'Avoid unpaved', description: 'Prefers paved paths over tracks and dirt' },
+];
+
+const UNPAVED_SURFACES = new Set([
+  'unpaved',
+  'gravel',
+  'fine_gravel',
+  'pebblestone',
+  'compacted',
+  'dirt',
+  'earth',
+  'ground',
+  'grass',
+  'mud',
+  'sand',
+  'woodchips',
+]);
+
+const ROUGH_SMOOTHNESS = new Set(['bad', 'very_bad', 'horrible', 'very_horrible', 'impassable']);
+
+// Kerb values a wheelchair can cross
+const STEP_FREE_KERBS = new Set(['lowered', 'flush', 'no']);
+
+// Barriers that cannot be passed without stepping or lifting
+const STEP_BARRIERS = new Set(['stile', 'kissing_gate', 'turnstile', 'full-height_turnstile', 'step']);
+
+function isUnpaved(tags: Record<string, string>): boolean {
+  if (tags.surface) return UNPAVED_SURFACES.has(tags.surface);
+  if (tags.smoothness && ROUGH_SMOOTHNESS.has(tags.smoothness)) return true;
+  // Untagged tracks are assumed to be unpaved unless graded as solid
+  return tags.highway === 'track' && tags.tracktype !== 'grade1';
+}
+
+function getNodeViolation(tags: Record<string, string> | undefined): string | null {
+  if (!tags) return null;
+  if (tags.wheelchair === 'no') return 'Not wheelchair accessible';
+  if (tags.kerb && !STEP_FREE_KERBS.has(tags.kerb)) return 'Raised kerb';
+  if (tags.barrier && STEP_BARRIERS.has(tags.barrier)) return 'Barrier';
+  return null;
+}
+
+// Why traversing an edge breaks the profile, or null when it complies
+export function getEdgeViolation(
+  graph: RoutingGraph,
+  profile: RoutingProfile,
+  neighbour: GraphNeighbour
+): string | null {
+  const tags = graph.ways[neighbour.way].tags;
+
+  switch (profile) {
+    case 'step_free':
+      if (tags.highway === 'steps') return 'Steps';
+      if (tags.wheelchair === 'no') return 'Not wheelchair accessible';
+      return getNodeViolation(graph.nodeTags[neighbour.node]);
+    case 'avoid_unpaved':
+      return isUnpaved(tags) ? 'Unpaved surface' : null;
+    default:
+      return null;
+  }
+}
+
+// Crossings with unknown kerbs are not violations, but step-free routes avoid them when cheap to do so
+export function getEdgePenalty(graph: RoutingGraph, profile: RoutingProfile, neighbour: GraphNeighbour): number {
+  if (profile !== 'step_free') return 1;
+
+  const nodeTags = graph.nodeTags[neighbour.node];
+  const isUnknownCrossing = nodeTags?.highway === 'crossing' && !nodeTags.kerb;
+  return isUnknownCrossing ? 1.2 : 1;
+}
@@ -0,0 +1,114 @@
+import { RouteData, RouteRequestOptions, RouteStop } from '../../types/route';
+import { calculateOfflineRoute } from './router';
+import { calculateOfflineCyclingRoute } from './cycling';
+import { loadCampusGraph } from './graph';
+import { generateInstructions } from './instructions';
+import { CAMPUS_LANDMARKS } from './landmarks';
+import { loadShuttleTimetable, planShuttleTrip } from './shuttle';
+import { isDefinitiveRouteError } from '../routeErrors';
+
+// Stops may carry the name of the place they were picked from
+export type RouteProvider = (start: RouteStop, end: RouteStop, options?: RouteRequestOptions) => Promise<RouteData>;
+
+// 'online' only calls the backend, 'offline' only uses the in-browser router,
+// 'fallback' tries the backend first and routes locally if that fails
+export type RoutingMode = 'online' | 'offline' | 'fallback';
+
+export const offlineRouteProvider: RouteProvider = (start, end, options) =>
+  options?.mode === 'cycle' ? calculateOfflineCyclingRoute(start, end, options) : calculateOfflineRoute(start, end, options);
+
+export function getRoutingMode(): RoutingMode {
+  const mode = process.env.NEXT_PUBLIC_ROUTING_MODE;
+  return mode === 'online' || mode === 'offline' ? mode : 'fallback';
+}
+
+// Wrap a backend provider according to the configured routing mode
+export function withOfflineRouting(online: RouteProvider, mode: RoutingMode = getRoutingMode()): RouteProvider {
+  if (mode === 'offline') {
+    return offlineRouteProvider;
+  }
+
+  return async (start, end, options) => {
+    // The backend only plans walking routes
+    if (options?.mode === 'cycle') {
+      return offlineRouteProvider(start, end, options);
+    }
+    if (mode === 'online') {
+      return online(start, end, options);
+    }
+
+    try {
+      return await online(start, end, options);
+    } catch (error) {
+      // A cancelled request was superseded, and NO_PATH/OUT_OF_BOUNDS would
+      // only be repeated by the offline router
+      if (options?.signal?.aborted || isDefinitiveRouteError(error)) {
+        throw error;
+      }
+
+      console.warn('Backend routing failed, using offline router:', error);
+      try {
+        return await offlineRouteProvider(start, end, options);
+      } catch (offlineError) {
+        console.error('Offline routing failed:', offlineError);
+        // Prefer the offline answer only when it explains the failure
+        throw isDefinitiveRouteError(offlineError) ? offlineError : error;
+      }
+    }
+  };
+}
+
+// Replace a provider's instructions with ones generated against the campus graph,
+// so backend and offline routes name paths and landmarks and suppress micro-turns
+// the same way
+export function withGraphInstructions(provider: RouteProvider): RouteProvider {
+  return async (start, end, options) => {
+    const route = await provider(start, end, options);
+    // Multi-leg routes carry waypoint instructions the generator knows nothing about
+    if (route.legs && route.legs.length > 1) {
+      return route;
+    }
+
+    try {
+      const graph = await loadCampusGraph();
+      const regenerate = (data: RouteData): RouteData => ({
+        ...data,
+        instructions: generateInstructions(data.path_coordinates, graph, {
+          landmarks: CAMPUS_LANDMARKS,
+          origin: start,
+          destination: end,
+        }),
+      });
+      return {
+        ...regenerate(route),
+        alternatives: route.alternatives?.map(regenerate),
+      };
+    } catch (error) {
+      console.warn('Keeping backend instructions:', error);
+      return route;
+    }
+  };
+}
+
+// Offer walk → shuttle → walk instead of a walking route when the next shuttle, wait
+// included, gets the user there sooner
+export function withShuttle(provider: RouteProvider): RouteProvider {
+  return async (start, end, options) => {
+    const route = await provider(start, end, options);
+    if (!options?.useShuttle || options.mode === 'cycle') {
+      return route;
+    }
+
+    try {
+      const [graph, timetable] = await Promise.all([loadCampusGraph(), loadShuttleTimetable()]);
+      options.signal?.throwIfAborted();
+      return planShuttleTrip(graph, timetable, route, start, end, options);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.warn('Planning without the shuttle:', error);
+      return route;
+    }
+  };
+}
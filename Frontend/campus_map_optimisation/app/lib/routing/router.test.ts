@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance } from '../geo';
+import { offsetCoordinate, pointAtDistance } from '../geometry';
+import { RouteError } from '../routeErrors';
+import { CampusGraph, createRoutingGraph } from './graph';
+import { calculateRoute, MAX_SNAP_DISTANCE } from './router';
+
+// One straight path from the Library 800 m south, past SARC
+const LIBRARY = { lat: 28.52501, lng: 77.574915 };
+const SOUTH_END = offsetCoordinate(LIBRARY, -800, 0);
+
+const campusGraph: CampusGraph = {
+  bounds: { minLat: 28.513, minLng: 77.551, maxLat: 28.538, maxLng: 77.598 },
+  nodes: [[LIBRARY.lat, LIBRARY.lng], [SOUTH_END.lat, SOUTH_END.lng]],
+  nodeTags: {},
+  ways: [{ tags: { highway: 'footway' } }],
+  edges: [[0, 1, Math.round(haversineDistance(LIBRARY, SOUTH_END)), 0]],
+};
+const graph = createRoutingGraph(campusGraph);
+
+const snapError = (start: { lat: number; lng: number }) => {
+  try {
+    calculateRoute(graph, start, LIBRARY);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('snapping to the graph', () => {
+  it('routes from a point near a node', () => {
+    const start = offsetCoordinate(SOUTH_END, 0, MAX_SNAP_DISTANCE - 50);
+    expect(calculateRoute(graph, start, LIBRARY).path_coordinates).toHaveLength(2);
+  });
+
+  // The backend measures to the nearest node, not the nearest edge; both sides must agree
+  it('rejects a point on an edge but far from any node, like the backend', () => {
+    const error = snapError(pointAtDistance(graph.coordinates, 400));
+    expect(error).toBeInstanceOf(RouteError);
+    expect((error as RouteError).code).toBe('OUT_OF_BOUNDS');
+    expect((error as RouteError).details.role).toBe('start');
+  });
+
+  it('rejects a point outside the graph bounds', () => {
+    const error = snapError({ lat: 28.6, lng: 77.574915 });
+    expect((error as RouteError).code).toBe('OUT_OF_BOUNDS');
+  });
+});
@@ -0,0 +1,310 @@
+import { Coordinate, ProfileViolation, RouteData, RouteOptions, RouteRequestOptions, RouteStop, RoutingProfile } from '../../types/route';
+import { haversineDistance } from '../geo';
+import { GraphNeighbour, RoutingGraph, findNearestNode, isWithinBounds, loadCampusGraph } from './graph';
+import { RouteError } from '../routeErrors';
+import { generateInstructions } from './instructions';
+import { CAMPUS_LANDMARKS } from './landmarks';
+import { getEdgePenalty, getEdgeViolation } from './profiles';
+
+export const WALKING_SPEED = 80; // meters per minute, matches the backend estimate
+
+// Points farther than this from the graph node they snap to are treated as off campus
+export const MAX_SNAP_DISTANCE = 300; // meters
+
+// Shortest route plus alternatives offered to the user
+export const MAX_ROUTE_OPTIONS = 3;
+
+// Minimal binary heap keyed on the A* f-score
+class MinHeap {
+  private items: Array<{ node: number; priority: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push({ node, priority });
+
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top.node;
+  }
+}
+
+// Cost of traversing an edge; defaults to its length
+export type EdgeCost = (from: number, to: GraphNeighbour) => number;
+
+const edgeLength: EdgeCost = (_, { length }) => length;
+
+// A* shortest path by cost; returns node indices or null when unreachable.
+// Costs must never be below the edge length for the heuristic to stay admissible.
+export function findShortestPath(
+  graph: RoutingGraph,
+  source: number,
+  target: number,
+  cost: EdgeCost = edgeLength
+): number[] | null {
+  const { coordinates, adjacency } = graph;
+  const gScore = new Float64Array(coordinates.length).fill(Infinity);
+  const previous = new Int32Array(coordinates.length).fill(-1);
+  const closed = new Uint8Array(coordinates.length);
+  const open = new MinHeap();
+
+  gScore[source] = 0;
+  open.push(source, haversineDistance(coordinates[source], coordinates[target]));
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+
+    if (current === target) {
+      const path = [target];
+      while (path[0] !== source) {
+        path.unshift(previous[path[0]]);
+      }
+      return path;
+    }
+
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    for (const neighbour of adjacency[current]) {
+      const { node } = neighbour;
+      const tentative = gScore[current] + cost(current, neighbour);
+      if (tentative < gScore[node]) {
+        gScore[node] = tentative;
+        previous[node] = current;
+        open.push(node, tentative + haversineDistance(coordinates[node], coordinates[target]));
+      }
+    }
+  }
+
+  return null;
+}
+
+// Cost multiplier for non-compliant edges when no compliant path exists
+const VIOLATION_PENALTY = 10;
+
+// Edge cost for a routing profile; strict excludes non-compliant edges entirely
+function createProfileCost(graph: RoutingGraph, profile: RoutingProfile, strict: boolean): EdgeCost {
+  return (_, neighbour) => {
+    const cost = neighbour.length * getEdgePenalty(graph, profile, neighbour);
+    if (!getEdgeViolation(graph, profile, neighbour)) return cost;
+    return strict ? Infinity : cost * VIOLATION_PENALTY;
+  };
+}
+
+// Stretches of a path that break the profile, with consecutive edges merged
+function findProfileViolations(graph: RoutingGraph, profile: RoutingProfile, path: number[]): ProfileViolation[] {
+  const violations: ProfileViolation[] = [];
+  let previous: ProfileViolation | null = null;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const neighbour = graph.adjacency[path[i]]
+      .filter(({ node }) => node === path[i + 1])
+      .sort((a, b) => a.length - b.length)[0];
+    const reason = neighbour ? getEdgeViolation(graph, profile, neighbour) : null;
+
+    if (!reason) {
+      previous = null;
+    } else if (previous && previous.reason === reason) {
+      previous.distance += Math.round(neighbour.length);
+    } else {
+      previous = { reason, location: graph.coordinates[path[i]], path_index: i, distance: Math.round(neighbour.length) };
+      violations.push(previous);
+    }
+  }
+
+  return violations;
+}
+
+// Overlap above which a candidate is not considered a different route
+const MAX_ALTERNATIVE_OVERLAP = 0.7;
+// Alternatives longer than this multiple of the shortest path are discarded
+const MAX_ALTERNATIVE_STRETCH = 1.5;
+const OVERLAP_PENALTY = 1.5;
+
+const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+function pathLength(graph: RoutingGraph, path: number[]): number {
+  let length = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    length += haversineDistance(graph.coordinates[path[i]], graph.coordinates[path[i + 1]]);
+  }
+  return length;
+}
+
+// Share of the candidate's length that runs along edges of another path
+function pathOverlap(graph: RoutingGraph, candidate: number[], other: Set<string>): number {
+  let shared = 0;
+  for (let i = 0; i < candidate.length - 1; i++) {
+    if (other.has(edgeKey(candidate[i], candidate[i + 1]))) {
+      shared += haversineDistance(graph.coordinates[candidate[i]], graph.coordinates[candidate[i + 1]]);
+    }
+  }
+  const total = pathLength(graph, candidate);
+  return total > 0 ? shared / total : 1;
+}
+
+// Shortest path plus up to `count - 1` alternatives found by repeatedly
+// penalising edges that are already used, keeping only paths with limited overlap
+export function findAlternativePaths(
+  graph: RoutingGraph,
+  source: number,
+  target: number,
+  count: number = MAX_ROUTE_OPTIONS,
+  cost: EdgeCost = edgeLength
+): number[][] {
+  const shortest = findShortestPath(graph, source, target, cost);
+  if (!shortest) {
+    return [];
+  }
+
+  const paths = [shortest];
+  const pathEdges = [new Set(shortest.slice(1).map((node, i) => edgeKey(shortest[i], node)))];
+  const penalties = new Map<string, number>();
+  const maxLength = pathLength(graph, shortest) * MAX_ALTERNATIVE_STRETCH;
+
+  const penalise = (edges: Set<string>) => {
+    for (const key of edges) {
+      penalties.set(key, (penalties.get(key) ?? 1) * OVERLAP_PENALTY);
+    }
+  };
+  const penalisedCost: EdgeCost = (from, neighbour) =>
+    cost(from, neighbour) * (penalties.get(edgeKey(from, neighbour.node)) ?? 1);
+
+  penalise(pathEdges[0]);
+
+  for (let attempt = 0; attempt < count * 3 && paths.length < count; attempt++) {
+    const candidate = findShortestPath(graph, source, target, penalisedCost);
+    if (!candidate || pathLength(graph, candidate) > maxLength) {
+      break;
+    }
+
+    const candidateEdges = new Set(candidate.slice(1).map((node, i) => edgeKey(candidate[i], node)));
+    penalise(candidateEdges);
+
+    if (pathEdges.every(edges => pathOverlap(graph, candidate, edges) <= MAX_ALTERNATIVE_OVERLAP)) {
+      paths.push(candidate);
+      pathEdges.push(candidateEdges);
+    }
+  }
+
+  return paths;
+}
+
+function createRouteData(
+  graph: RoutingGraph,
+  start: RouteStop,
+  end: RouteStop,
+  path: number[],
+  profile: RoutingProfile,
+  compliant: boolean
+): RouteData {
+  const pathCoordinates = path.map(node => graph.coordinates[node]);
+  const totalDistance = pathLength(graph, path);
+  const route: RouteData = {
+    start,
+    end,
+    total_distance: Math.round(totalDistance),
+    estimated_time_minutes: Math.round((totalDistance / WALKING_SPEED) * 10) / 10,
+    instructions: generateInstructions(pathCoordinates, graph, {
+      landmarks: CAMPUS_LANDMARKS,
+      origin: start,
+      destination: end,
+    }),
+    path_coordinates: pathCoordinates,
+    profile,
+  };
+
+  if (!compliant) {
+    route.profile_violations = findProfileViolations(graph, profile, path);
+  }
+  return route;
+}
+
+function snapToGraph(graph: RoutingGraph, point: Coordinate, role: 'start' | 'end'): number {
+  const node = findNearestNode(graph, point);
+
+  // Same rule as snap_to_graph in Backend/get_route.py: the route starts at the node, so the node must be close
+  if (node === -1 || !isWithinBounds(graph.bounds, point) || haversineDistance(point, graph.coordinates[node]) > MAX_SNAP_DISTANCE) {
+    throw new RouteError('OUT_OF_BOUNDS', `The ${role} point is outside the campus map.`, { point, role });
+  }
+
+  return node;
+}
+
+export function calculateRoute(
+  graph: RoutingGraph,
+  start: RouteStop,
+  end: RouteStop,
+  { profile = 'standard' }: RouteOptions = {}
+): RouteData {
+  const startNode = snapToGraph(graph, start, 'start');
+  const endNode = snapToGraph(graph, end, 'end');
+
+  let compliant = true;
+  let paths = findAlternativePaths(graph, startNode, endNode, MAX_ROUTE_OPTIONS, createProfileCost(graph, profile, true));
+
+  // Fall back to the least non-compliant path so the user still gets a route
+  if (paths.length === 0 && profile !== 'standard') {
+    compliant = false;
+    paths = findAlternativePaths(graph, startNode, endNode, MAX_ROUTE_OPTIONS, createProfileCost(graph, profile, false));
+  }
+
+  const [path, ...alternatives] = paths;
+  if (!path) {
+    throw new RouteError('NO_PATH', 'No walking path found between the selected points.');
+  }
+
+  const route = createRouteData(graph, start, end, path, profile, compliant);
+  if (alternatives.length > 0) {
+    route.alternatives = alternatives
+      .map(alternative => createRouteData(graph, start, end, alternative, profile, compliant))
+      .sort((a, b) => a.total_distance - b.total_distance);
+  }
+  return route;
+}
+
+// Route entirely in the browser using the prebuilt campus graph
+export async function calculateOfflineRoute(
+  start: RouteStop,
+  end: RouteStop,
+  { signal, ...options }: RouteRequestOptions = {}
+): Promise<RouteData> {
+  const graph = await loadCampusGraph();
+  signal?.throwIfAborted();
+  return calculateRoute(graph, start, end, options);
+}
@@ -0,0 +1,143 @@
+import {
+  Coordinate,
+  Instruction,
+  ProfileViolation,
+  RouteData,
+  RouteOptions,
+  RouteSegment,
+  RouteStop,
+  SegmentMode,
+  ShuttleDeparture,
+} from '../../types/route';
+import { haversineDistance } from '../geo';
+import { RoutingGraph } from './graph';
+import { calculateRoute } from './router';
+
+// One part of a multimodal trip, routed on its own
+export interface RoutePart {
+  route: RouteData;
+  mode: SegmentMode;
+  start: RouteStop;
+  end: RouteStop;
+  shuttle?: ShuttleDeparture;
+}
+
+const isSamePoint = (a: Coordinate, b: Coordinate) => a.lat === b.lat && a.lng === b.lng;
+
+// "14:05" in local time
+export function formatClockTime(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// Instruction that starts a part: boarding, getting off, or the journey itself
+function describePartStart(part: RoutePart, previous: RoutePart | undefined, instruction: Instruction): Instruction {
+  if (part.mode === 'cycle') {
+    return { ...instruction, instruction: `Pick up a bike at ${part.start.name}`, maneuver_type: 'waypoint' };
+  }
+  if (part.mode === 'shuttle' && part.shuttle) {
+    const { line, vehicle, departs_at } = part.shuttle;
+    return {
+      ...instruction,
+      instruction: `Board the ${line} ${vehicle} at ${part.start.name}, leaving ${formatClockTime(departs_at)}`,
+      maneuver_type: 'waypoint',
+    };
+  }
+  if (previous?.mode === 'cycle') {
+    return { ...instruction, instruction: `Return your bike at ${part.start.name}`, maneuver_type: 'waypoint' };
+  }
+  if (previous?.mode === 'shuttle') {
+    return { ...instruction, instruction: `Get off at ${part.start.name}`, maneuver_type: 'waypoint' };
+  }
+  return instruction;
+}
+
+// A destination at a dock or shuttle stop ends the trip with the ride
+function describeArrival(part: RoutePart, instruction: Instruction): Instruction {
+  switch (part.mode) {
+    case 'cycle':
+      return { ...instruction, instruction: `Return your bike at ${part.end.name}; you have arrived` };
+    case 'shuttle':
+      return { ...instruction, instruction: `Get off at ${part.end.name}; you have arrived` };
+    default:
+      return instruction;
+  }
+}
+
+// Join walking and riding parts into one route, keeping where each mode starts and ends
+export function joinSegments(parts: RoutePart[], profile: RouteOptions['profile']): RouteData {
+  const pathCoordinates: RouteData['path_coordinates'] = [];
+  const instructions: Instruction[] = [];
+  const segments: RouteSegment[] = [];
+  const violations: ProfileViolation[] = [];
+  // Parts that start where they end, like a trip starting at a dock, add nothing
+  const travelled = parts.filter(part => part.route.path_coordinates.length > 1);
+
+  travelled.forEach((part, index) => {
+    const isLastPart = index === travelled.length - 1;
+    const path = part.route.path_coordinates;
+    const skipFirst = pathCoordinates.length > 0 && isSamePoint(pathCoordinates[pathCoordinates.length - 1], path[0]);
+    const pathStartIndex = skipFirst ? pathCoordinates.length - 1 : pathCoordinates.length;
+
+    pathCoordinates.push(...(skipFirst ? path.slice(1) : path));
+
+    for (const violation of part.route.profile_violations ?? []) {
+      violations.push({ ...violation, path_index: violation.path_index + pathStartIndex });
+    }
+
+    for (const instruction of part.route.instructions) {
+      const offset = { ...instruction, path_index: instruction.path_index + pathStartIndex };
+      if (instruction.maneuver_type === 'depart') {
+        instructions.push(describePartStart(part, travelled[index - 1], offset));
+      } else if (instruction.maneuver_type !== 'arrive') {
+        instructions.push(offset);
+      } else if (isLastPart) {
+        instructions.push(describeArrival(part, offset));
+      }
+    }
+
+    segments.push({
+      mode: part.mode,
+      start: part.start,
+      end: part.end,
+      distance: part.route.total_distance,
+      estimated_time_minutes: part.route.estimated_time_minutes,
+      path_start_index: pathStartIndex,
+      path_end_index: pathCoordinates.length - 1,
+      ...(part.shuttle && { shuttle: part.shuttle }),
+    });
+  });
+
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  const route: RouteData = {
+    start: first.start,
+    end: last.end,
+    total_distance: segments.reduce((sum, segment) => sum + segment.distance, 0),
+    estimated_time_minutes: Math.round(segments.reduce((sum, segment) => sum + segment.estimated_time_minutes, 0) * 10) / 10,
+    instructions,
+    path_coordinates: pathCoordinates,
+    segments,
+    profile,
+  };
+
+  if (travelled.some(part => part.route.profile_violations)) {
+    route.profile_violations = violations;
+  }
+  return route;
+}
+
+// Parts of a multimodal trip have no alternatives, and an unreachable dock or stop is simply skipped
+export const tryRoute = (graph: RoutingGraph, start: RouteStop, end: RouteStop, options: RouteOptions): RouteData | null => {
+  try {
+    return { ...calculateRoute(graph, start, end, options), alternatives: undefined };
+  } catch {
+    return null;
+  }
+};
+
+// The given number of places closest to a point, nearest first
+export const findNearest = <T extends Coordinate>(point: Coordinate, places: T[], count: number): T[] =>
+  [...places]
+    .sort((a, b) => haversineDistance(point, a) - haversineDistance(point, b))
+    .slice(0, count);
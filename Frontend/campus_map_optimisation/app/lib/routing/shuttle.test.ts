@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { ShuttleTimetable } from '../../types/shuttle';
+import { shuttleTimetableSchema } from './shuttle';
+
+const timetable = JSON.parse(
+  readFileSync(resolve(__dirname, '../../../public/data/shuttle-timetable.json'), 'utf8')
+) as ShuttleTimetable;
+const [line] = timetable.lines;
+
+const withStops = (change: (stops: ShuttleTimetable['lines'][number]['stops']) => void) => {
+  const stops = line.stops.map(stop => ({ ...stop }));
+  change(stops);
+  return { lines: [{ ...line, stops }] };
+};
+
+describe('shuttleTimetableSchema', () => {
+  it('accepts the bundled timetable', () => {
+    expect(shuttleTimetableSchema.safeParse(timetable).success).toBe(true);
+  });
+
+  it('rejects a stop beyond the end of the path', () => {
+    const result = shuttleTimetableSchema.safeParse(withStops(stops => {
+      stops[stops.length - 1].path_index = line.path.length;
+    }));
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects stops out of order along the path', () => {
+    const result = shuttleTimetableSchema.safeParse(withStops(stops => {
+      stops[2].path_index = stops[1].path_index;
+    }));
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a stop reached before the one ahead of it', () => {
+    const result = shuttleTimetableSchema.safeParse(withStops(stops => {
+      stops[2].offset_minutes = stops[1].offset_minutes - 1;
+    }));
+    expect(result.success).toBe(false);
+  });
+});
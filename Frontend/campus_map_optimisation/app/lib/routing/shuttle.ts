@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { Instruction, ManeuverType, RouteData, RouteOptions, RouteStop } from '../../types/route';
+import { ShuttleLine, ShuttleStop, ShuttleTimetable } from '../../types/shuttle';
+import { cumulativeDistances } from '../geometry';
+import { RoutingGraph } from './graph';
+import { MANEUVER_INSTRUCTIONS } from './instructions';
+import { WALKING_SPEED } from './router';
+import { findNearest, joinSegments, RoutePart, tryRoute } from './segments';
+
+export const SHUTTLE_TIMETABLE_URL = '/data/shuttle-timetable.json';
+
+const MAX_STOP_CANDIDATES = 3; // stops tried near each end of the trip, nearest first
+const MIN_SHUTTLE_SAVING = 2; // minutes; a smaller saving is not worth the wait and the change
+
+const locationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  category: z.string(),
+  description: z.string(),
+});
+
+const shuttleStopSchema = z.object({
+  location: locationSchema,
+  offset_minutes: z.number().min(0),
+  path_index: z.number().int().min(0),
+});
+
+const shuttleLineSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  vehicle: z.string(),
+  accessible: z.boolean().optional(),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  stops: z.array(shuttleStopSchema).min(2),
+  departures: z.array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM')),
+  path: z.array(z.tuple([z.number(), z.number()])).min(2),
+}).superRefine((line, context) => {
+  // Stops must lie on the path in the order the shuttle calls at them
+  line.stops.forEach((stop, index) => {
+    const previous = line.stops[index - 1];
+    if (stop.path_index >= line.path.length) {
+      context.addIssue({ code: 'custom', message: 'Stop lies beyond the end of the path', path: ['stops', index, 'path_index'] });
+    }
+    if (previous && stop.path_index <= previous.path_index) {
+      context.addIssue({ code: 'custom', message: 'Stops must come later along the path', path: ['stops', index, 'path_index'] });
+    }
+    if (previous && stop.offset_minutes < previous.offset_minutes) {
+      context.addIssue({ code: 'custom', message: 'Stops must not be reached earlier than the one before', path: ['stops', index, 'offset_minutes'] });
+    }
+  });
+});
+
+export const shuttleTimetableSchema: z.ZodType<ShuttleTimetable> = z.object({
+  lines: z.array(shuttleLineSchema),
+});
+
+let timetablePromise: Promise<ShuttleTimetable> | null = null;
+
+// Fetch and check the shuttle timetable once and share it between callers
+export function loadShuttleTimetable(url: string = SHUTTLE_TIMETABLE_URL): Promise<ShuttleTimetable> {
+  if (!timetablePromise) {
+    timetablePromise = fetch(url)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load shuttle timetable (status ${response.status})`);
+        }
+        return shuttleTimetableSchema.parse(await response.json());
+      })
+      .catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        timetablePromise = null;
+        throw error;
+      });
+  }
+
+  return timetablePromise;
+}
+
+const parseClockTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const roundMinutes = (minutes: number) => Math.round(minutes * 10) / 10;
+
+const toRouteStop = ({ location }: ShuttleStop): RouteStop => ({
+  lat: location.lat,
+  lng: location.lng,
+  name: location.name,
+});
+
+// Start of the first run that reaches the stop no earlier than the given time (epoch
+// milliseconds), or null when no later run calls there that day
+export function findNextRun(line: ShuttleLine, stopIndex: number, earliest: number): number | null {
+  if (line.days && !line.days.includes(new Date(earliest).getDay())) {
+    return null;
+  }
+
+  const offset = line.stops[stopIndex].offset_minutes * 60000;
+  let next: number | null = null;
+  for (const time of line.departures) {
+    const run = new Date(earliest).setHours(0, parseClockTime(time), 0, 0);
+    if (run + offset >= earliest && (next === null || run < next)) {
+      next = run;
+    }
+  }
+  return next;
+}
+
+// The stretch of the line between two stops; the shuttle needs no turn-by-turn directions
+function createShuttleRide(line: ShuttleLine, board: number, alight: number, minutes: number): RouteData {
+  const path = line.path
+    .slice(line.stops[board].path_index, line.stops[alight].path_index + 1)
+    .map(([lat, lng]) => ({ lat, lng }));
+  const distance = Math.round(cumulativeDistances(path)[path.length - 1]);
+  const instruction = (pathIndex: number, type: ManeuverType, meters: number): Instruction => ({
+    instruction: MANEUVER_INSTRUCTIONS[type],
+    distance: meters,
+    distance_text: meters > 0 ? `${meters} meters` : '',
+    path_index: pathIndex,
+    location: path[pathIndex],
+    turn_angle: 0,
+    maneuver_type: type,
+  });
+
+  return {
+    start: path[0],
+    end: path[path.length - 1],
+    total_distance: distance,
+    estimated_time_minutes: roundMinutes(minutes),
+    instructions: [instruction(0, 'depart', distance), instruction(path.length - 1, 'arrive', 0)],
+    path_coordinates: path,
+  };
+}
+
+// Walk to a shuttle stop, wait for the next run, ride and walk on, when that beats the
+// walking route by enough to be worth it. Walking legs keep the router's timing, so
+// applyPace can rescale them; the shuttle part is the wait plus the ride.
+export function planShuttleTrip(
+  walkingGraph: RoutingGraph,
+  timetable: ShuttleTimetable,
+  walk: RouteData,
+  start: RouteStop,
+  end: RouteStop,
+  { profile, pace, departAt = Date.now(), walkingSpeed = WALKING_SPEED }: RouteOptions = {}
+): RouteData {
+  const walkOptions = { profile };
+  const walkingMinutes = (route: RouteData) => route.total_distance / walkingSpeed;
+
+  let best: { parts: RoutePart[]; minutes: number } | null = null;
+
+  for (const line of timetable.lines) {
+    if (pace === 'wheelchair' && !line.accessible) continue;
+
+    const stops = line.stops.map((stop, index) => ({ ...toRouteStop(stop), index }));
+    // Nobody boards at the last stop or gets off at the first, which on a loop are the same place
+    const boardings = findNearest(start, stops.slice(0, -1), MAX_STOP_CANDIDATES)
+      .map(({ index }) => ({ index, route: tryRoute(walkingGraph, start, toRouteStop(line.stops[index]), walkOptions) }));
+    const alightings = findNearest(end, stops.slice(1), MAX_STOP_CANDIDATES)
+      .map(({ index }) => ({ index, route: tryRoute(walkingGraph, toRouteStop(line.stops[index]), end, walkOptions) }));
+
+    for (const boarding of boardings) {
+      for (const alighting of alightings) {
+        // Staying on past the end of a run is not planned
+        if (!boarding.route || !alighting.route || alighting.index <= boarding.index) continue;
+
+        const atStop = departAt + walkingMinutes(boarding.route) * 60000;
+        const run = findNextRun(line, boarding.index, atStop);
+        if (run === null) continue;
+
+        const departsAt = run + line.stops[boarding.index].offset_minutes * 60000;
+        const arrivesAt = run + line.stops[alighting.index].offset_minutes * 60000;
+        const minutes = (arrivesAt - departAt) / 60000 + walkingMinutes(alighting.route);
+        if (best && minutes >= best.minutes) continue;
+
+        const boardStop = toRouteStop(line.stops[boarding.index]);
+        const alightStop = toRouteStop(line.stops[alighting.index]);
+        best = {
+          minutes,
+          parts: [
+            { route: boarding.route, mode: 'walk', start, end: boardStop },
+            {
+              route: createShuttleRide(line, boarding.index, alighting.index, (arrivesAt - atStop) / 60000),
+              mode: 'shuttle',
+              start: boardStop,
+              end: alightStop,
+              shuttle: {
+                line: line.name,
+                vehicle: line.vehicle,
+                departs_at: departsAt,
+                arrives_at: arrivesAt,
+                wait_minutes: roundMinutes((departsAt - atStop) / 60000),
+              },
+            },
+            { route: alighting.route, mode: 'walk', start: alightStop, end },
+          ],
+        };
+      }
+    }
+  }
+
+  if (!best || best.minutes > walkingMinutes(walk) - MIN_SHUTTLE_SAVING) {
+    return walk;
+  }
+  return joinSegments(best.parts, profile);
+}
@@ -1,19 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import RouteForm from './components/RouteForm';
 import RouteResult from './components/RouteResult';
 import LiveNavigation from './components/LiveNavigation';
+import RouteErrorNotice from './components/RouteErrorNotice';
+import LocationDevPanel from './components/LocationDevPanel';
 import { LocationProvider } from './contexts/LocationContext';
-import type { RouteFormData, RouteData as RouteDataType } from './types/route';
+import type { RouteFormData, RouteData as RouteDataType, RoutingProfile, PaceProfile, LocationPoint } from './types';
+import { findNearestGate, loadCampusGraph, offlineRouteProvider, planMultiStopRoute, RouteProvider } from './lib/routing';
+import { RouteError, RouteRecoveryAction, toRouteError } from './lib/routeErrors';
+import { routeProvider } from './lib/routeClient';
+import { getRouteOptions } from './lib/routeDisplay';
+import { applyPace, DEFAULT_PACE, getCalibratedSpeed, getTravelMode, loadPaceCalibration } from './lib/pace';
 import { Loader } from 'lucide-react';
 
-// Define LocationPoint type locally for now
-interface LocationPoint {
-  name: string;
-  coordinates: [number, number]; // [longitude, latitude]
-}
+// Simulated and replayed locations are offered in development, or when explicitly enabled
+const SHOW_LOCATION_DEV_PANEL = process.env.NODE_ENV === 'development' ||
+  process.env.NEXT_PUBLIC_LOCATION_DEV_PANEL === 'true';
 
 // Dynamically import RouteMap to avoid SSR issues
 const RouteMap = dynamic(() => import('./components/RouteMap'), {
@@ -30,91 +35,131 @@ const RouteMap = dynamic(() => import('./components/RouteMap'), {
 
 export default function Home() {
   const [routeData, setRouteData] = useState<RouteDataType | null>(null);
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
+  const [routingProfile, setRoutingProfile] = useState<RoutingProfile>('standard');
+  const [pace, setPace] = useState<PaceProfile>(DEFAULT_PACE);
+  const [useShuttle, setUseShuttle] = useState(false);
   const [selectedFromLocation, setSelectedFromLocation] = useState<LocationPoint | null>(null);
   const [selectedToLocation, setSelectedToLocation] = useState<LocationPoint | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<RouteError | null>(null);
+  const [lastRequest, setLastRequest] = useState<RouteFormData | null>(null);
   const [isNavigationMode, setIsNavigationMode] = useState(false);
+  const [navigationRoute, setNavigationRoute] = useState<RouteDataType | null>(null);
+  // Steps shared by the directions list and the map: clicked, hovered, and walked during navigation
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null);
+  const [activeStep, setActiveStep] = useState<number | null>(null);
 
-  const handleRouteSubmit = async (formData: RouteFormData) => {
+  const handleRouteSubmit = async (formData: RouteFormData, provider: RouteProvider = routeProvider) => {
     try {
       setIsLoading(true);
       setError(null);
+      setLastRequest(formData);
 
-      // Build URL with query parameters - more robust approach
-      const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
-      const params = new URLSearchParams({
-        start_lat: formData.startLat.toString(),
-        start_lng: formData.startLng.toString(),
-        end_lat: formData.endLat.toString(),
-        end_lng: formData.endLng.toString()
-      });
-      
-      const fullUrl = `${baseUrl}/route?${params.toString()}`;
-      console.log('Fetching route from:', fullUrl); // Debug log
-
-      const response = await fetch(fullUrl, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          "ngrok-skip-browser-warning": "69420",
-        },
+      const calibration = loadPaceCalibration(formData.pace);
+      const route = await planMultiStopRoute(formData.stops, provider, {
+        optimiseOrder: formData.optimiseOrder,
+        profile: formData.profile,
+        mode: getTravelMode(formData.pace),
+        useShuttle: formData.useShuttle,
+        walkingSpeed: getCalibratedSpeed(calibration),
+        pace: formData.pace,
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log('API Response:', data); // Debug log
-      
-      // Check if the response indicates success
-      if (data.success && data.route) {
-        setRouteData(data.route); // Extract the actual route data
-      } else {
-        throw new Error(data.error || 'Failed to calculate route');
-      }
+      setRouteData(applyPace(route, calibration));
+      setSelectedRouteIndex(0);
+      setRoutingProfile(formData.profile);
+      setPace(formData.pace);
+      setUseShuttle(formData.useShuttle);
       
       // Set location data for navigation
+      const start = formData.stops[0];
+      const destination = formData.stops[formData.stops.length - 1];
       setSelectedFromLocation({
-        name: 'Start Location',
-        coordinates: [formData.startLng, formData.startLat]
+        name: start.name || 'Start Location',
+        coordinates: [start.lng, start.lat]
       });
       setSelectedToLocation({
-        name: 'Destination',
-        coordinates: [formData.endLng, formData.endLat]
+        name: destination.name || 'Destination',
+        coordinates: [destination.lng, destination.lat]
       });
     } catch (err) {
       console.error('Error fetching route:', err);
       
-      // More specific error messages
-      if (err instanceof TypeError && err.message.includes('string did not match the expected pattern')) {
-        setError('Invalid URL format. Please check your network connection and try again.');
-      } else if (err instanceof SyntaxError) {
-        setError('Invalid response from server. Please try again.');
-      } else if (err instanceof Error) {
-        setError(err.message.includes('Failed to fetch') 
-          ? 'Cannot connect to the server. Please ensure the backend is running.' 
-          : err.message
-        );
-      } else {
-        setError('An unexpected error occurred. Please try again.');
-      }
+      setError(toRouteError(err));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Replace the stop that is off campus with the nearest campus gate
+  const snapStopsToGate = async (formData: RouteFormData, routeError: RouteError): Promise<RouteFormData> => {
+    const graph = await loadCampusGraph();
+    const { point, role } = routeError.details;
+    const lastIndex = formData.stops.length - 1;
+
+    const stops = formData.stops.map((stop, index) => {
+      const isOffending = point
+        ? stop.lat === point.lat && stop.lng === point.lng
+        : (role === 'start' && index === 0) || (role === 'end' && index === lastIndex);
+      const gate = isOffending ? findNearestGate(graph, stop) : -1;
+      return gate === -1 ? stop : { ...graph.coordinates[gate], name: 'Nearest gate' };
+    });
+
+    return { ...formData, stops };
+  };
+
+  const handleErrorAction = async (action: RouteRecoveryAction) => {
+    if (!lastRequest || !error) return;
+
+    switch (action) {
+      case 'retry':
+        await handleRouteSubmit(lastRequest);
+        break;
+      case 'use_offline':
+        await handleRouteSubmit(lastRequest, offlineRouteProvider);
+        break;
+      case 'snap_to_gate':
+        try {
+          await handleRouteSubmit(await snapStopsToGate(lastRequest, error));
+        } catch (err) {
+          setError(toRouteError(err));
+        }
+        break;
+      case 'pick_location':
+        setError(null);
+        setRouteData(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+        break;
+    }
+  };
+
   const handleStartNavigation = () => {
     setIsNavigationMode(true);
   };
 
   const handleStopNavigation = () => {
     setIsNavigationMode(false);
+    setNavigationRoute(null);
+    setActiveStep(null);
   };
 
+  const routeOptions = getRouteOptions(routeData);
+  const selectedRoute = routeOptions[selectedRouteIndex] ?? routeData;
+  // After a reroute the route being followed differs from the planned one
+  const displayedRoute = isNavigationMode && navigationRoute ? navigationRoute : selectedRoute;
+
+  // Step indices belong to one route
+  useEffect(() => {
+    setSelectedStep(null);
+    setHoveredStep(null);
+  }, [displayedRoute]);
+
+  // A step walked during navigation means nothing for another planned route
+  useEffect(() => {
+    setActiveStep(null);
+  }, [routeData, selectedRouteIndex]);
+
   const navigationDestination = selectedToLocation ? {
     lat: selectedToLocation.coordinates[1],
     lng: selectedToLocation.coordinates[0],
@@ -143,12 +188,20 @@ export default function Home() {
               <RouteForm onSubmit={handleRouteSubmit} loading={isLoading} onReset={() => setRouteData(null)} />
               
               {/* Route Result */}
-              {routeData && (
+              {displayedRoute && (
                 <RouteResult
-                  route={routeData}
+                  route={displayedRoute}
+                  routeOptions={routeOptions}
+                  selectedRouteIndex={selectedRouteIndex}
+                  onSelectRoute={setSelectedRouteIndex}
                   onStartNavigation={handleStartNavigation}
                   isNavigationMode={isNavigationMode}
                   onReset={() => setRouteData(null)}
+                  selectedStep={selectedStep}
+                  highlightedStep={hoveredStep ?? selectedStep}
+                  activeStep={activeStep}
+                  onSelectStep={setSelectedStep}
+                  onHoverStep={setHoveredStep}
                 />
               )}
 
@@ -156,25 +209,22 @@ export default function Home() {
               {isNavigationMode && routeData && (
                 <LiveNavigation
                   destination={navigationDestination}
+                  plannedRoute={selectedRoute}
+                  profile={routingProfile}
+                  pace={pace}
+                  useShuttle={useShuttle}
                   onNavigationEnd={handleStopNavigation}
+                  onRouteChange={setNavigationRoute}
+                  onStepChange={setActiveStep}
                 />
               )}
 
               {/* Error Display */}
               {error && (
-                <div className="bg-red-50 border border-red-200 rounded-2xl p-4">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                    <div className="ml-3">
-                      <p className="text-sm font-medium text-red-800">{error}</p>
-                    </div>
-                  </div>
-                </div>
+                <RouteErrorNotice error={error} onAction={handleErrorAction} busy={isLoading} />
               )}
+
+              {SHOW_LOCATION_DEV_PANEL && <LocationDevPanel route={selectedRoute ?? null} />}
             </div>
 
             {/* Right Column - Map */}
@@ -182,9 +232,16 @@ export default function Home() {
               <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
                 <div className="h-[600px]">
                   <RouteMap
-                    route={routeData}
+                    route={displayedRoute}
+                    routeOptions={routeOptions}
+                    selectedRouteIndex={selectedRouteIndex}
+                    onSelectRoute={setSelectedRouteIndex}
                     isNavigating={isNavigationMode}
                     showUserLocation={true}
+                    selectedStep={selectedStep}
+                    highlightedStep={hoveredStep ?? selectedStep}
+                    onSelectStep={setSelectedStep}
+                    onHoverStep={setHoveredStep}
                   />
                 </div>
               </div>
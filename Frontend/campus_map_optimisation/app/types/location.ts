@@ -21,6 +21,8 @@ export type LocationCategory =
   | "Recreation"
   | "Healthcare"
   | "Parking"
+  | "Bike Dock"
+  | "Shuttle Stop"
   | "Entry"
   | "Research"
   | "Shopping"  // Added
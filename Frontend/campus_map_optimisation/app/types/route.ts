@@ -1,7 +1,24 @@
+export type ManeuverType =
+  | 'depart'
+  | 'straight'
+  | 'slight_right'
+  | 'right'
+  | 'sharp_right'
+  | 'uturn'
+  | 'sharp_left'
+  | 'left'
+  | 'slight_left'
+  | 'waypoint'
+  | 'arrive';
+
 export interface Instruction {
   instruction: string;
-  distance: number;
+  distance: number; // meters walked after the maneuver
   distance_text: string;
+  path_index: number; // index into path_coordinates where the maneuver happens
+  location: Coordinate;
+  turn_angle: number; // degrees, positive = right
+  maneuver_type: ManeuverType;
 }
 
 export interface Coordinate {
@@ -9,6 +26,82 @@ export interface Coordinate {
   lng: number;
 }
 
+// standard: shortest walk; step_free: no steps, raised kerbs or barriers;
+// avoid_unpaved: no tracks, gravel or dirt paths
+export type RoutingProfile = 'standard' | 'step_free' | 'avoid_unpaved';
+
+// How a stretch of the route is travelled
+export type TravelMode = 'walk' | 'cycle';
+
+// Segments may also be ridden on the campus shuttle, which only walking trips use
+export type SegmentMode = TravelMode | 'shuttle';
+
+// Speed the ETA is estimated at; cycle also routes by bike between docks
+export type PaceProfile = 'slow_walk' | 'brisk_walk' | 'run' | 'wheelchair' | 'cycle';
+
+// none: no completed trips at this pace yet; low/medium/high: how consistent past trips were
+export type EtaConfidence = 'none' | 'low' | 'medium' | 'high';
+
+// Estimate at the chosen pace, adjusted to how fast the user has actually been
+export interface EtaEstimate {
+  pace: PaceProfile;
+  low_minutes: number; // likely range around estimated_time_minutes
+  high_minutes: number;
+  confidence: EtaConfidence;
+  trips: number; // completed trips the calibration is based on
+}
+
+export interface RouteOptions {
+  profile?: RoutingProfile;
+  mode?: TravelMode; // cycle: walk to a bike dock, ride, dock and walk on
+  useShuttle?: boolean; // walking trips: also try walking to a shuttle stop, riding and walking on
+  departAt?: number; // epoch milliseconds the trip starts, for shuttle departures; now when absent
+  walkingSpeed?: number; // meters per minute, to time the walk to a shuttle stop
+  pace?: PaceProfile; // wheelchair: only shuttles marked accessible are offered
+}
+
+export interface RouteRequestOptions extends RouteOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// A stretch of the route that breaks the requested routing profile
+export interface ProfileViolation {
+  reason: string;
+  location: Coordinate;
+  path_index: number; // index into path_coordinates where the stretch starts
+  distance: number; // meters
+}
+
+export interface RouteStop extends Coordinate {
+  name?: string;
+}
+
+export interface RouteLeg {
+  start: RouteStop;
+  end: RouteStop;
+  distance: number;
+  estimated_time_minutes: number;
+  // Index range of this leg within the parent route's path_coordinates
+  path_start_index: number;
+  path_end_index: number;
+}
+
+// The shuttle run to catch for a shuttle segment
+export interface ShuttleDeparture {
+  line: string; // name of the shuttle line
+  vehicle: string;
+  departs_at: number; // epoch milliseconds, from the stop to board at
+  arrives_at: number; // epoch milliseconds, at the stop to get off at
+  wait_minutes: number; // at the boarding stop
+}
+
+// Part of a route travelled one way, e.g. the ride between two bike docks
+export interface RouteSegment extends RouteLeg {
+  mode: SegmentMode;
+  shuttle?: ShuttleDeparture; // present on shuttle segments
+}
+
 export interface RouteData {
   start: Coordinate;
   end: Coordinate;
@@ -16,6 +109,12 @@ export interface RouteData {
   estimated_time_minutes: number;
   instructions: Instruction[];
   path_coordinates: Coordinate[];
+  legs?: RouteLeg[];
+  segments?: RouteSegment[]; // walking, cycling and shuttle parts of a multimodal route, in order
+  profile?: RoutingProfile;
+  profile_violations?: ProfileViolation[]; // present only when no fully compliant path exists
+  alternatives?: RouteData[]; // other meaningfully different routes, shortest first
+  eta?: EtaEstimate; // present once estimated_time_minutes is adjusted to the user's pace
 }
 
 export interface RouteResponse {
@@ -25,8 +124,9 @@ export interface RouteResponse {
 }
 
 export interface RouteFormData {
-  startLat: number;
-  startLng: number;
-  endLat: number;
-  endLng: number;
+  stops: RouteStop[]; // start, intermediate waypoints, destination
+  optimiseOrder: boolean;
+  profile: RoutingProfile;
+  pace: PaceProfile;
+  useShuttle: boolean;
 }
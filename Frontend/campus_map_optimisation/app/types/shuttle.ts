@@ -0,0 +1,25 @@
+import { Location } from './location';
+
+// A stop on a shuttle line, in the order the shuttle calls at it
+export interface ShuttleStop {
+  location: Location;
+  offset_minutes: number; // after the run leaves the first stop
+  path_index: number; // index into the line's path where the shuttle stops
+}
+
+// A campus shuttle or e-rickshaw running a fixed timetable along one path
+export interface ShuttleLine {
+  id: string;
+  name: string;
+  vehicle: string; // e.g. "e-rickshaw", used in directions
+  accessible?: boolean; // boardable in a wheelchair; not offered to wheelchair users otherwise
+  days?: number[]; // days of the week it runs, 0 = Sunday; every day when absent
+  stops: ShuttleStop[]; // a loop lists its first stop again at the end
+  departures: string[]; // local "HH:MM" times a run leaves the first stop
+  path: [number, number][]; // [latitude, longitude] the shuttle drives along
+}
+
+// As stored in public/data/shuttle-timetable.json
+export interface ShuttleTimetable {
+  lines: ShuttleLine[];
+}
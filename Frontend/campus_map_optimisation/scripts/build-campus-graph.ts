@@ -0,0 +1,243 @@
+// Builds public/data/campus-graph.json from the campus OSM extract.
+// Usage: npm run build:graph [-- <input.osm> <output.json>] [--exclude-private]
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { CampusGraph, GraphBounds, GraphWay } from '../app/lib/routing/graph';
+import { haversineDistance } from '../app/lib/geo';
+
+const DEFAULT_INPUT = resolve(__dirname, '../../../Backend/map.osm');
+const DEFAULT_OUTPUT = resolve(__dirname, '../public/data/campus-graph.json');
+
+// Highway types a pedestrian can use; motorways, trunk roads and anything
+// without a highway tag (railways, power lines, landuse outlines) are dropped
+const WALKABLE_HIGHWAYS = new Set([
+  'footway',
+  'path',
+  'pedestrian',
+  'steps',
+  'living_street',
+  'service',
+  'residential',
+  'track',
+  'unclassified',
+  'tertiary',
+]);
+
+// Ways whose oneway tag applies to pedestrians; cycling access is decided
+// separately by NO_CYCLING_HIGHWAYS in app/lib/routing/graph.ts
+const FOOT_ONLY_HIGHWAYS = new Set(['footway', 'path', 'pedestrian', 'steps']);
+
+// The whole campus is mapped as access=private, so private ways are kept
+// unless --exclude-private is passed
+const BLOCKED_ACCESS = new Set(['no', 'use_sidepath']);
+
+// OSM tags copied into the graph for routing profiles, cycling and instructions
+const KEPT_WAY_TAGS = [
+  'highway',
+  'name',
+  'surface',
+  'tracktype',
+  'smoothness',
+  'wheelchair',
+  'access',
+  'foot',
+  'footway',
+  'bicycle',
+  'oneway',
+  'oneway:bicycle',
+];
+const KEPT_NODE_TAGS = ['highway', 'kerb', 'wheelchair', 'barrier', 'crossing'];
+
+const pickTags = (tags: Record<string, string>, keys: string[]) => {
+  const picked: Record<string, string> = {};
+  for (const key of keys) {
+    if (tags[key] !== undefined) picked[key] = tags[key];
+  }
+  return picked;
+};
+
+interface OsmNode {
+  coordinate: [number, number];
+  tags: Record<string, string>;
+}
+
+interface OsmWay {
+  nodeIds: string[];
+  tags: Record<string, string>;
+}
+
+const readAttribute = (element: string, name: string) =>
+  element.match(new RegExp(`\\b${name}=['"]([^'"]*)['"]`))?.[1];
+
+function readTags(body: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [tag] of body.matchAll(/<tag\b[^>]*>/g)) {
+    tags[readAttribute(tag, 'k')!] = readAttribute(tag, 'v')!;
+  }
+  return tags;
+}
+
+function parseOsm(xml: string) {
+  const nodes = new Map<string, OsmNode>();
+  const ways: OsmWay[] = [];
+  let bounds: GraphBounds | null = null;
+
+  const boundsElement = xml.match(/<bounds\b[^>]*>/)?.[0];
+  if (boundsElement) {
+    bounds = {
+      minLat: Number(readAttribute(boundsElement, 'minlat')),
+      minLng: Number(readAttribute(boundsElement, 'minlon')),
+      maxLat: Number(readAttribute(boundsElement, 'maxlat')),
+      maxLng: Number(readAttribute(boundsElement, 'maxlon')),
+    };
+  }
+
+  // Self-closing nodes have no tags; the body group is only set for <node>...</node>
+  for (const [element, body] of xml.matchAll(/<node\b[^>]*?(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+    if (readAttribute(element, 'action') === 'delete') continue;
+    const id = readAttribute(element, 'id')!;
+    nodes.set(id, {
+      coordinate: [Number(readAttribute(element, 'lat')), Number(readAttribute(element, 'lon'))],
+      tags: body ? readTags(body) : {},
+    });
+  }
+
+  for (const [element, body] of xml.matchAll(/<way\b[^>]*>([\s\S]*?)<\/way>/g)) {
+    if (readAttribute(element, 'action') === 'delete') continue;
+
+    const nodeIds = [...body.matchAll(/<nd\b[^>]*>/g)].map(([nd]) => readAttribute(nd, 'ref')!);
+    ways.push({ nodeIds, tags: readTags(body) });
+  }
+
+  return { nodes, ways, bounds };
+}
+
+function isWalkable(tags: Record<string, string>, excludePrivate: boolean): boolean {
+  if (!WALKABLE_HIGHWAYS.has(tags.highway)) return false;
+  if (tags.railway || tags.power) return false;
+
+  // foot=* overrides the general access tag
+  const access = tags.foot ?? tags.access;
+  if (access === undefined) return true;
+  if (BLOCKED_ACCESS.has(access)) return false;
+  return !(excludePrivate && access === 'private');
+}
+
+// Pedestrians may walk against traffic on roads, so only oneway:foot and
+// oneway on foot-only ways restrict walking direction
+function getWalkingOneway(tags: Record<string, string>): GraphWay['oneway'] {
+  const oneway = tags['oneway:foot'] ?? (FOOT_ONLY_HIGHWAYS.has(tags.highway) ? tags.oneway : undefined);
+  if (oneway === 'yes' || oneway === '1') return 1;
+  if (oneway === '-1') return -1;
+  return undefined;
+}
+
+const isInside = (bounds: GraphBounds, [lat, lng]: [number, number]) =>
+  lat >= bounds.minLat && lat <= bounds.maxLat && lng >= bounds.minLng && lng <= bounds.maxLng;
+
+// Keep only the largest connected component so every snapped point is reachable
+function largestComponent(nodeCount: number, edges: CampusGraph['edges']): Set<number> {
+  const parent = Array.from({ length: nodeCount }, (_, i) => i);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+
+  for (const [from, to] of edges) {
+    parent[find(from)] = find(to);
+  }
+
+  const sizes = new Map<number, number>();
+  for (const [from] of edges) {
+    const root = find(from);
+    sizes.set(root, (sizes.get(root) ?? 0) + 1);
+  }
+
+  const [largest] = [...sizes.entries()].sort((a, b) => b[1] - a[1])[0] ?? [-1];
+  const component = new Set<number>();
+  for (let i = 0; i < nodeCount; i++) {
+    if (find(i) === largest) component.add(i);
+  }
+  return component;
+}
+
+function buildGraph(xml: string, excludePrivate: boolean): CampusGraph {
+  const osm = parseOsm(xml);
+  const bounds = osm.bounds ?? { minLat: -90, minLng: -180, maxLat: 90, maxLng: 180 };
+  const coordinates: Array<[number, number]> = [];
+  const nodeIndex = new Map<string, number>();
+  const nodeIds: string[] = [];
+  const ways: GraphWay[] = [];
+  const edges: CampusGraph['edges'] = [];
+
+  const indexOf = (id: string) => {
+    let index = nodeIndex.get(id);
+    if (index === undefined) {
+      index = coordinates.length;
+      nodeIndex.set(id, index);
+      nodeIds.push(id);
+      coordinates.push(osm.nodes.get(id)!.coordinate);
+    }
+    return index;
+  };
+
+  for (const way of osm.ways) {
+    if (!isWalkable(way.tags, excludePrivate)) continue;
+
+    const wayIndex = ways.length;
+    ways.push({ tags: pickTags(way.tags, KEPT_WAY_TAGS), oneway: getWalkingOneway(way.tags) });
+
+    for (let i = 0; i < way.nodeIds.length - 1; i++) {
+      const from = osm.nodes.get(way.nodeIds[i])?.coordinate;
+      const to = osm.nodes.get(way.nodeIds[i + 1])?.coordinate;
+      if (!from || !to || !isInside(bounds, from) || !isInside(bounds, to)) continue;
+
+      const length = haversineDistance({ lat: from[0], lng: from[1] }, { lat: to[0], lng: to[1] });
+      edges.push([indexOf(way.nodeIds[i]), indexOf(way.nodeIds[i + 1]), Math.round(length * 10) / 10, wayIndex]);
+    }
+  }
+
+  // Renumber nodes and ways so the artifact only contains what is reachable
+  const component = largestComponent(coordinates.length, edges);
+  const nodeRemap = new Map<number, number>();
+  const wayRemap = new Map<number, number>();
+  const graph: CampusGraph = { bounds, nodes: [], nodeTags: {}, ways: [], edges: [] };
+
+  const remapNode = (node: number) => {
+    let index = nodeRemap.get(node);
+    if (index === undefined) {
+      index = graph.nodes.length;
+      nodeRemap.set(node, index);
+      graph.nodes.push(coordinates[node]);
+
+      const tags = pickTags(osm.nodes.get(nodeIds[node])!.tags, KEPT_NODE_TAGS);
+      if (Object.keys(tags).length > 0) graph.nodeTags[index] = tags;
+    }
+    return index;
+  };
+
+  for (const [from, to, length, way] of edges) {
+    if (!component.has(from)) continue;
+
+    let wayIndex = wayRemap.get(way);
+    if (wayIndex === undefined) {
+      wayIndex = graph.ways.length;
+      wayRemap.set(way, wayIndex);
+      graph.ways.push(ways[way]);
+    }
+
+    graph.edges.push([remapNode(from), remapNode(to), length, wayIndex]);
+  }
+
+  return graph;
+}
+
+const args = process.argv.slice(2);
+const excludePrivate = args.includes('--exclude-private');
+const [input = DEFAULT_INPUT, output = DEFAULT_OUTPUT] = args.filter(arg => !arg.startsWith('--'));
+const graph = buildGraph(readFileSync(input, 'utf8'), excludePrivate);
+writeFileSync(output, JSON.stringify(graph));
+console.log(`Wrote ${graph.nodes.length} nodes, ${graph.edges.length} edges and ${graph.ways.length} ways to ${output}`);
@@ -0,0 +1,110 @@
+// Stand-in for the FastAPI backend that serves the /route contract from the
+// offline router, with scripted failure scenarios for UI development.
+// Usage: npm run mock:backend [-- --scenario=<name>] [--port=8000] [--delay=8000]
+// Switch scenario at runtime with GET /scenario?name=<name>, or per request
+// with a `scenario` query parameter when calling the mock directly.
+import { createServer, ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { calculateRoute, createRoutingGraph, type CampusGraph } from '../app/lib/routing';
+import { RouteError } from '../app/lib/routeErrors';
+import type { RouteData, RoutingProfile } from '../app/types/route';
+
+const GRAPH_PATH = resolve(__dirname, '../public/data/campus-graph.json');
+
+const SCENARIOS = ['normal', 'no_path', 'slow', 'malformed', 'reroute'] as const;
+type Scenario = (typeof SCENARIOS)[number];
+
+const isScenario = (value: string | null | undefined): value is Scenario =>
+  SCENARIOS.includes(value as Scenario);
+
+const readOption = (name: string) =>
+  process.argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const port = Number(readOption('port') ?? 8000);
+const slowDelay = Number(readOption('delay') ?? 8000); // milliseconds
+const initialScenario = readOption('scenario');
+let scenario: Scenario = isScenario(initialScenario) ? initialScenario : 'normal';
+
+const graph = createRoutingGraph(JSON.parse(readFileSync(GRAPH_PATH, 'utf8')) as CampusGraph);
+
+// Requests per destination, so each reroute can return a different option
+const rerouteCounts = new Map<string, number>();
+
+function sendJson(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function pickRerouteOption(route: RouteData, destinationKey: string): RouteData {
+  const options = [route, ...(route.alternatives ?? [])];
+  const count = rerouteCounts.get(destinationKey) ?? 0;
+  rerouteCounts.set(destinationKey, count + 1);
+
+  return { ...options[count % options.length], alternatives: undefined };
+}
+
+async function handleRoute(url: URL, res: ServerResponse) {
+  const params = url.searchParams;
+  const requested = params.get('scenario');
+  const active = isScenario(requested) ? requested : scenario;
+  const start = { lat: Number(params.get('start_lat')), lng: Number(params.get('start_lng')) };
+  const end = { lat: Number(params.get('end_lat')), lng: Number(params.get('end_lng')) };
+  const profile = (params.get('profile') ?? 'standard') as RoutingProfile;
+
+  switch (active) {
+    case 'no_path':
+      return sendJson(res, { success: false, error: 'No walking path connects these locations', code: 'NO_PATH' });
+    case 'malformed':
+      // Truncated body, as from a backend that died mid-response
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return res.end('{"success": true, "route": {"start": ');
+    case 'slow':
+      await sleep(slowDelay);
+      break;
+  }
+
+  try {
+    const route = calculateRoute(graph, start, end, { profile });
+    const body = active === 'reroute' ? pickRerouteOption(route, `${end.lat},${end.lng}`) : route;
+    sendJson(res, { success: true, route: body });
+  } catch (error) {
+    if (error instanceof RouteError) {
+      return sendJson(res, { success: false, error: error.message, code: error.code, details: error.details });
+    }
+    sendJson(res, { success: false, error: String(error), code: 'INTERNAL_ERROR' });
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+  if (url.pathname === '/route') {
+    return handleRoute(url, res);
+  }
+
+  if (url.pathname === '/scenario') {
+    const name = url.searchParams.get('name');
+    if (name !== null) {
+      if (!isScenario(name)) {
+        return sendJson(res, { error: `Unknown scenario: ${name}`, scenarios: SCENARIOS }, 400);
+      }
+      scenario = name;
+      rerouteCounts.clear();
+      console.log(`Scenario switched to ${scenario}`);
+    }
+    return sendJson(res, { scenario, scenarios: SCENARIOS });
+  }
+
+  if (url.pathname === '/') {
+    return sendJson(res, { message: `Mock Campus Route API is running (scenario: ${scenario})` });
+  }
+
+  sendJson(res, { detail: 'Not Found' }, 404);
+});
+
+server.listen(port, () => {
+  console.log(`Mock route server on http://localhost:${port} (scenario: ${scenario})`);
+});